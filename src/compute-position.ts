@@ -0,0 +1,1267 @@
+// ---------------------------------------------------------------------------------------------------- //
+
+export interface Size { width: number; height: number }
+export interface Point { x: number; y: number }
+
+export interface VirtualElement {
+    getBoundingClientRect(): DOMRect;
+    contextElement?: Element;
+    /** Notifies when the rect changed for reasons the DOM cannot observe, e.g. a moving pointer. */
+    subscribe?(onChange: () => void): () => void;
+}
+
+interface OffsetFunctionData { side: PhysicalSide; align: Align; anchor: Size; positioner: Size }
+export type OffsetFunction = (data: OffsetFunctionData) => number;
+
+export type Side =
+    | "top"
+    | "bottom"
+    | "left"
+    | "right"
+    | "inline-end"
+    | "inline-start";
+
+export type PhysicalSide = "top" | "bottom" | "left" | "right";
+export type Direction = "ltr" | "rtl";
+
+export type Align = "start" | "center" | "end";
+
+/** What a popup does once its anchor is scrolled out of the collision boundary. */
+export type HideWhenDetached = "hide" | "close" | "none";
+
+export interface Rect {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+export type CollisionBoundary =
+    | "clipping-ancestors"
+    | Element
+    | Element[]
+    | Rect;
+
+export type CollisionAvoidance =
+    | {
+        side?: "flip" | "none";
+        align?: "flip" | "shift" | "none";
+        fallbackAxisSide?: "start" | "end" | "none";
+    }
+    | {
+        side?: "shift" | "none";
+        align?: "shift" | "none";
+        fallbackAxisSide?: "start" | "end" | "none";
+    }
+
+export type Padding =
+    | number
+    | { top?: number; right?: number; bottom?: number; left?: number }
+
+// ---------------------------------------------------------------------------------------------------- //
+
+const DEFAULT_SIDE: Side = "bottom";
+const DEFAULT_SIDE_OFFSET = 4;
+const DEFAULT_ALIGN: Align = "start";
+const DEFAULT_ALIGN_OFFSET = 0;
+const DEFAULT_COLLISION_AVOIDANCE: CollisionAvoidance = { side: "flip", align: "shift" };
+const DEFAULT_COLLISION_BOUNDARY: CollisionBoundary = "clipping-ancestors";
+const DEFAULT_COLLISION_PADDING = 8;
+const DEFAULT_STICKY = false;
+const DEFAULT_POSITION_METHOD = "fixed";
+const DEFAULT_ARROW_PADDING = 5;
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export interface ComputePositionOptions {
+    side?: Side;
+    sideOffset?: number | OffsetFunction;
+    align?: Align;
+    alignOffset?: number | OffsetFunction;
+
+    collisionAvoidance?: CollisionAvoidance;
+    collisionBoundary?: CollisionBoundary | null;
+    collisionPadding?: Padding;
+
+    /**
+     * When `false` the popup stops shifting along the anchor once the anchor has left the
+     * collision boundary, so it scrolls away together with it. When `true` it stays inside the boundary.
+     */
+    sticky?: boolean;
+    positionMethod?: "fixed" | "absolute";
+
+    /**
+     * Direction that logical sides and alignment resolve against. Inherited from the anchor when omitted.
+     * In `rtl`, `start`/`end` alignment on the top and bottom sides maps to the right/left edges.
+     */
+    dir?: Direction;
+
+    /**
+     * Limits the floating element to the space available on its resolved side. The limit is returned
+     * as `maxWidth`/`maxHeight` for the caller to apply.
+     */
+    constrainSize?: boolean;
+
+    /** Overrides the measured floating size, e.g. with the natural size of a constrained listbox. */
+    floatingSize?: Size;
+    arrow?: { element: HTMLElement; padding?: number } | null;
+
+    /** Replaces the default `[place(), flip(), shift(), flipAlign()]` pipeline. */
+    middleware?: Middleware[];
+
+    /** Skips side selection and keeps the given side, e.g. while tracking scroll. */
+    forceSide?: PhysicalSide;
+}
+
+export interface NormalizedPadding {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+export interface ArrowResult {
+    x: number | null;
+    y: number | null;
+    uncentered: boolean;
+}
+
+export interface PositionResult {
+    x: number;
+    y: number;
+    actualSide: PhysicalSide;
+    actualAlign: Align;
+    arrow: ArrowResult | null;
+    anchorHidden: boolean;
+    /** The floating element itself overflows the collision boundary, e.g. because `sticky` is off. */
+    escaped: boolean;
+    anchorWidth: number;
+    anchorHeight: number;
+    availableWidth: number;
+    availableHeight: number;
+    maxWidth: number | null;
+    maxHeight: number | null;
+    transformOrigin: string;
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function isVirtualElement(value: unknown): value is VirtualElement {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        "getBoundingClientRect" in value &&
+        !("nodeType" in value)
+    );
+}
+
+function getContextElement(anchor: Element | VirtualElement): Element | null {
+    if (isVirtualElement(anchor)) return anchor.contextElement ?? null;
+    return anchor;
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+// `direction` is inherited, so the computed style of the anchor reflects any `dir` set on its ancestors.
+function getDirection(element: Element | null): Direction {
+    const target = element ?? document.documentElement;
+    return getComputedStyle(target).direction === "rtl" ? "rtl" : "ltr";
+}
+
+function resolveLogicalSide(side: Side, dir: Direction = getDirection(null)): PhysicalSide {
+    if (side === "inline-start" || side === "inline-end") {
+        const isRtl = dir === "rtl";
+        if (side === "inline-start") return isRtl ? "right" : "left";
+        return isRtl ? "left" : "right";
+    }
+    return side;
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function normalizePadding(padding: Padding): NormalizedPadding {
+    if (typeof padding === "number")
+        return { top: padding, right: padding, bottom: padding, left: padding }
+
+    return {
+        top: padding.top ?? 0,
+        right: padding.right ?? 0,
+        bottom: padding.bottom ?? 0,
+        left: padding.left ?? 0,
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function getClippingAncestors(element: Element): Element[] {
+    const ancestors: Element[] = [];
+    let current: Element | null = element.parentElement;
+
+    while (current && current !== element.ownerDocument.documentElement) {
+        const style = getComputedStyle(current);
+        const overflow = style.overflow + style.overflowX + style.overflowY;
+        if (/auto|scroll|hidden|clip/.test(overflow)) ancestors.push(current);
+
+        current = current.parentElement;
+    }
+
+    return ancestors;
+}
+
+function intersectRects(elements: Element[], initial: Rect, offset: Point = { x: 0, y: 0 }): Rect {
+    return elements.reduce<Rect>((acc, el) => {
+        const rect = el.getBoundingClientRect();
+
+        return {
+            top: Math.max(acc.top, rect.top + offset.y),
+            left: Math.max(acc.left, rect.left + offset.x),
+            right: Math.min(acc.right, rect.right + offset.x),
+            bottom: Math.min(acc.bottom, rect.bottom + offset.y),
+        }
+    }, initial);
+}
+
+// With pinch-zoom only the visual viewport is on screen. Its offsets are relative to the layout
+// viewport, which is what client rects and fixed positioning use.
+function getViewportRect(win: Window): Rect {
+    const visualViewport = win.visualViewport;
+
+    if (!visualViewport) return {
+        top: 0,
+        left: 0,
+        right: win.innerWidth,
+        bottom: win.innerHeight,
+    }
+
+    return {
+        top: visualViewport.offsetTop,
+        left: visualViewport.offsetLeft,
+        right: visualViewport.offsetLeft + visualViewport.width,
+        bottom: visualViewport.offsetTop + visualViewport.height,
+    }
+}
+
+function getCollisionRect(
+    boundary: CollisionBoundary | null | undefined,
+    frameChain: FrameLevel[],
+    floatingEl: HTMLElement
+): Rect {
+    const viewport = getViewportRect(floatingEl.ownerDocument.defaultView ?? window);
+
+    if (!boundary) return viewport;
+
+    // Inside iframes, each frame clips its content in addition to the clipping ancestors at every level.
+    if (boundary === "clipping-ancestors") return frameChain.reduce((rect, { element, offset }, index) => {
+        const clippers = getClippingAncestors(element);
+        return intersectRects(index > 0 ? [element, ...clippers] : clippers, rect, offset);
+    }, viewport);
+
+    if (Array.isArray(boundary)) return intersectRects(boundary, viewport);
+    if ("getBoundingClientRect" in boundary) return intersectRects([boundary], viewport);
+
+    return boundary;
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface FrameLevel {
+    element: Element;
+    /** Translates client coordinates of `element`'s document into those of the floating element's one. */
+    offset: Point;
+}
+
+/**
+ * Lists the anchor followed by every same-origin iframe that contains it, up to the floating element's
+ * document. Cross-origin frames hide `frameElement`, so the chain stops there.
+ */
+function getFrameChain(element: Element | null, floatingEl: HTMLElement): FrameLevel[] {
+    if (!element) return [];
+
+    const chain: FrameLevel[] = [{ element, offset: { x: 0, y: 0 } }];
+    const targetWindow = floatingEl.ownerDocument.defaultView;
+
+    let current = element;
+
+    while (current.ownerDocument.defaultView !== targetWindow) {
+        const frame = current.ownerDocument.defaultView?.frameElement;
+        if (!frame) break;
+
+        const rect = frame.getBoundingClientRect();
+        const style = getComputedStyle(frame);
+
+        const x = rect.left + frame.clientLeft + parseFloat(style.paddingLeft);
+        const y = rect.top + frame.clientTop + parseFloat(style.paddingTop);
+
+        // Everything collected so far lives inside this frame and moves with its content box.
+        chain.forEach(({ offset }) => {
+            offset.x += x;
+            offset.y += y;
+        });
+
+        chain.push({ element: frame, offset: { x: 0, y: 0 } });
+        current = frame;
+    }
+
+    return chain;
+}
+
+function translateRect(rect: DOMRect, offset: Point): DOMRect {
+    if (!offset.x && !offset.y) return rect;
+    return new DOMRect(rect.x + offset.x, rect.y + offset.y, rect.width, rect.height);
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function resolveOffset(
+    offset: number | OffsetFunction,
+    data: OffsetFunctionData
+): number {
+    if (typeof offset === "function") return offset(data);
+    return offset;
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function isVertical(side: PhysicalSide): boolean {
+    return side === "top" || side === "bottom";
+}
+
+function getOppositeSide(side: PhysicalSide): PhysicalSide {
+    switch (side) {
+        case "top": return "bottom";
+        case "bottom": return "top";
+        case "left": return "right";
+        case "right": return "left";
+    }
+}
+
+function getOppositeAlign(align: Align): Align {
+    if (align === "start") return "end";
+    if (align === "end") return "start";
+    return "center";
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function getBasePosition(
+    anchorRect: DOMRect,
+    floatingSize: Size,
+    side: PhysicalSide,
+    sideOffset: number
+): { x: number; y: number } {
+    switch (side) {
+        case "bottom": return { x: anchorRect.left, y: anchorRect.bottom + sideOffset }
+        case "top": return { x: anchorRect.left, y: anchorRect.top - floatingSize.height - sideOffset }
+        case "right": return { x: anchorRect.right + sideOffset, y: anchorRect.top }
+        case "left": return { x: anchorRect.left - floatingSize.width - sideOffset, y: anchorRect.top }
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function applyAlignment(
+    pos: { x: number; y: number },
+    anchorRect: DOMRect,
+    floatingSize: Size,
+    side: PhysicalSide,
+    align: Align,
+    alignOffset: number,
+    dir: Direction
+): { x: number; y: number } {
+    // Horizontal alignment mirrors in RTL: `start` hugs the right edge and offsets grow leftwards.
+    if (isVertical(side) && dir === "rtl") switch (align) {
+        case "start": return { ...pos, x: anchorRect.right - floatingSize.width - alignOffset }
+        case "center": return { ...pos, x: anchorRect.left + anchorRect.width / 2 - floatingSize.width / 2 - alignOffset }
+        case "end": return { ...pos, x: anchorRect.left - alignOffset }
+        default: return pos;
+    }
+
+    else if (isVertical(side)) switch (align) {
+        case "start": return { ...pos, x: anchorRect.left + alignOffset }
+        case "center": return { ...pos, x: anchorRect.left + anchorRect.width / 2 - floatingSize.width / 2 + alignOffset }
+        case "end": return { ...pos, x: anchorRect.right - floatingSize.width + alignOffset }
+        default: return pos;
+    }
+
+    else switch (align) {
+        case "start": return { ...pos, y: anchorRect.top + alignOffset }
+        case "center": return { ...pos, y: anchorRect.top + anchorRect.height / 2 - floatingSize.height / 2 + alignOffset }
+        case "end": return { ...pos, y: anchorRect.bottom - floatingSize.height + alignOffset }
+        default: return pos;
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function getOverflow(
+    pos: { x: number; y: number },
+    floatingSize: Size,
+    collisionRect: Rect,
+    padding: NormalizedPadding
+): NormalizedPadding {
+    return {
+        top: Math.max(collisionRect.top + padding.top - pos.y, 0),
+        bottom: Math.max(pos.y + floatingSize.height - (collisionRect.bottom - padding.bottom), 0),
+        left: Math.max(collisionRect.left + padding.left - pos.x, 0),
+        right: Math.max(pos.x + floatingSize.width - (collisionRect.right - padding.right), 0),
+    }
+}
+
+function getSideOverflow(overflow: NormalizedPadding, side: PhysicalSide): number {
+    switch (side) {
+        case "top": return overflow.top;
+        case "bottom": return overflow.bottom;
+        case "left": return overflow.left;
+        case "right": return overflow.right;
+    }
+}
+
+function getTotalOverflow(overflow: NormalizedPadding): number {
+    return overflow.top + overflow.right + overflow.bottom + overflow.left;
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function isAnchorInCrossAxisBounds(
+    anchorRect: DOMRect,
+    collisionRect: Rect,
+    padding: NormalizedPadding,
+    side: PhysicalSide
+): boolean {
+    if (isVertical(side)) return (
+        anchorRect.right > collisionRect.left + padding.left &&
+        anchorRect.left < collisionRect.right - padding.right
+    );
+
+    return (
+        anchorRect.bottom > collisionRect.top + padding.top &&
+        anchorRect.top < collisionRect.bottom - padding.bottom
+    );
+}
+
+function applyShift(
+    pos: { x: number; y: number },
+    floatingSize: Size,
+    collisionRect: Rect,
+    padding: NormalizedPadding,
+    anchorRect: DOMRect,
+    side: PhysicalSide,
+    avoidance: CollisionAvoidance,
+    sticky: boolean
+): { x: number; y: number } {
+    const alignMode = avoidance.align ?? "shift";
+    const sideMode = avoidance.side ?? "flip";
+
+    const minX = collisionRect.left + padding.left;
+    const maxX = collisionRect.right - padding.right - floatingSize.width;
+    const minY = collisionRect.top + padding.top;
+    const maxY = collisionRect.bottom - padding.bottom - floatingSize.height;
+
+    const clampX = (x: number) => Math.max(minX, Math.min(x, maxX));
+    const clampY = (y: number) => Math.max(minY, Math.min(y, maxY));
+
+    const shiftCrossAxis =
+        alignMode === "shift" &&
+        (sticky || isAnchorInCrossAxisBounds(anchorRect, collisionRect, padding, side));
+
+    const shiftMainAxis = sideMode === "shift";
+
+    if (isVertical(side)) return {
+        x: shiftCrossAxis ? clampX(pos.x) : pos.x,
+        y: shiftMainAxis ? clampY(pos.y) : pos.y,
+    }
+
+    return {
+        x: shiftMainAxis ? clampX(pos.x) : pos.x,
+        y: shiftCrossAxis ? clampY(pos.y) : pos.y,
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export interface MiddlewareData {
+    arrow?: ArrowResult;
+    [key: string]: unknown;
+}
+
+export interface MiddlewareState {
+    x: number;
+    y: number;
+    side: PhysicalSide;
+    align: Align;
+
+    anchorRect: DOMRect;
+    floatingSize: Size;
+    collisionRect: Rect;
+    padding: NormalizedPadding;
+
+    sideOffset: number;
+    alignOffset: number;
+    collisionAvoidance: CollisionAvoidance;
+    sticky: boolean;
+    dir: Direction;
+
+    elements: { anchor: Element | VirtualElement; floating: HTMLElement };
+    data: MiddlewareData;
+}
+
+export interface Middleware {
+    name: string;
+    fn: (state: MiddlewareState) => MiddlewareState;
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function getAlignedPosition(state: MiddlewareState, side: PhysicalSide, align: Align): { x: number; y: number } {
+    const base = getBasePosition(state.anchorRect, state.floatingSize, side, state.sideOffset);
+    return applyAlignment(base, state.anchorRect, state.floatingSize, side, align, state.alignOffset, state.dir);
+}
+
+function getShiftedPosition(state: MiddlewareState, pos: { x: number; y: number }, side: PhysicalSide): { x: number; y: number } {
+    return applyShift(
+        pos,
+        state.floatingSize,
+        state.collisionRect,
+        state.padding,
+        state.anchorRect,
+        side,
+        state.collisionAvoidance,
+        state.sticky
+    );
+}
+
+function resolveCollision(state: MiddlewareState, preferredSide: PhysicalSide): PhysicalSide {
+    const { collisionAvoidance: avoidance, floatingSize, collisionRect, padding, align } = state;
+
+    const sideMode = avoidance.side ?? "flip";
+    if (sideMode !== "flip") return preferredSide;
+
+    const testPosition = (side: PhysicalSide) => getSideOverflow(
+        getOverflow(
+            getShiftedPosition(state, getAlignedPosition(state, side, align), side),
+            floatingSize,
+            collisionRect,
+            padding
+        ),
+        side
+    );
+
+    const preferredOverflow = testPosition(preferredSide);
+    if (preferredOverflow <= 0) return preferredSide;
+
+    const opposite = getOppositeSide(preferredSide);
+    const oppositeOverflow = testPosition(opposite);
+    if (oppositeOverflow <= 0) return opposite;
+
+    const fallback = avoidance.fallbackAxisSide;
+
+    if (fallback && fallback !== "none") {
+        const fallbackSide: PhysicalSide = isVertical(preferredSide)
+            ? fallback === "start" ? "left" : "right"
+            : fallback === "start" ? "top" : "bottom";
+
+        const fallbackOverflow = testPosition(fallbackSide);
+        if (fallbackOverflow <= 0) return fallbackSide;
+    }
+
+    // Nothing fits: prefer whichever side of the main axis leaves more room.
+    return oppositeOverflow < preferredOverflow ? opposite : preferredSide;
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+/** Places the popup against `state.side` and aligns it along the anchor. */
+function place(): Middleware {
+    return {
+        name: "place",
+        fn: (state) => ({ ...state, ...getAlignedPosition(state, state.side, state.align) }),
+    }
+}
+
+/** Moves the popup to another side of the anchor when the preferred one overflows the boundary. */
+function flip(): Middleware {
+    return {
+        name: "flip",
+        fn: (state) => {
+            const side = resolveCollision(state, state.side);
+            if (side === state.side) return state;
+
+            return { ...state, side, ...getAlignedPosition(state, side, state.align) }
+        },
+    }
+}
+
+/** Keeps the popup inside the boundary along the anchor, honouring `sticky`. */
+function shift(): Middleware {
+    return {
+        name: "shift",
+        fn: (state) => ({ ...state, ...getShiftedPosition(state, state, state.side) }),
+    }
+}
+
+/** Swaps `start`/`end` alignment when that reduces overflow, for `collisionAvoidance.align: "flip"`. */
+function flipAlign(): Middleware {
+    return {
+        name: "flipAlign",
+        fn: (state) => {
+            const { collisionAvoidance, floatingSize, collisionRect, padding, side, align } = state;
+            if (collisionAvoidance.align !== "flip" || align === "center") return state;
+
+            const overflow = getOverflow(state, floatingSize, collisionRect, padding);
+
+            const hasOverflow = isVertical(side)
+                ? overflow.left > 0 || overflow.right > 0
+                : overflow.top > 0 || overflow.bottom > 0;
+
+            if (!hasOverflow) return state;
+
+            const flippedAlign = getOppositeAlign(align);
+            const flippedPos = getShiftedPosition(state, getAlignedPosition(state, side, flippedAlign), side);
+            const flippedOverflow = getOverflow(flippedPos, floatingSize, collisionRect, padding);
+
+            if (getTotalOverflow(flippedOverflow) >= getTotalOverflow(overflow)) return state;
+            return { ...state, ...flippedPos, align: flippedAlign }
+        },
+    }
+}
+
+/** Computes the arrow offset along the popup edge facing the anchor into `state.data.arrow`. */
+function arrow({ element, padding = DEFAULT_ARROW_PADDING }: { element: HTMLElement; padding?: number }): Middleware {
+    return {
+        name: "arrow",
+        fn: (state) => ({
+            ...state,
+            data: {
+                ...state.data,
+                arrow: getArrowPosition(
+                    state,
+                    state.anchorRect,
+                    state.floatingSize,
+                    { width: element.offsetWidth, height: element.offsetHeight },
+                    state.side,
+                    padding
+                ),
+            },
+        }),
+    }
+}
+
+function getDefaultMiddleware(): Middleware[] {
+    return [place(), flip(), shift(), flipAlign()];
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function getAvailableDimensions(
+    anchorRect: DOMRect,
+    collisionRect: Rect,
+    padding: NormalizedPadding,
+    side: PhysicalSide,
+    sideOffset: number
+): { availableWidth: number; availableHeight: number } {
+    const vertical = isVertical(side);
+
+    const availableHeight = vertical
+        ? side === "bottom"
+            ? collisionRect.bottom - padding.bottom - anchorRect.bottom - sideOffset
+            : anchorRect.top - collisionRect.top - padding.top - sideOffset
+        : collisionRect.bottom - padding.bottom - (collisionRect.top + padding.top);
+
+    const availableWidth = !vertical
+        ? side === "right"
+            ? collisionRect.right - padding.right - anchorRect.right - sideOffset
+            : anchorRect.left - collisionRect.left - padding.left - sideOffset
+        : collisionRect.right - padding.right - (collisionRect.left + padding.left);
+
+    return {
+        availableWidth: Math.max(availableWidth, 0),
+        availableHeight: Math.max(availableHeight, 0),
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function getTransformOrigin(side: PhysicalSide, align: Align, dir: Direction): string {
+    if (isVertical(side) && dir === "rtl" && align !== "center") {
+        return getTransformOrigin(side, getOppositeAlign(align), "ltr");
+    }
+
+    switch (side) {
+        case "bottom": return align === "start" ? "top left" : align === "end" ? "top right" : "top center";
+        case "top": return align === "start" ? "bottom left" : align === "end" ? "bottom right" : "bottom center";
+        case "left": return align === "start" ? "top right" : align === "end" ? "bottom right" : "center right";
+        case "right": return align === "start" ? "top left" : align === "end" ? "bottom left" : "center left";
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function isAnchorHidden(anchorRect: DOMRect, collisionRect: Rect): boolean {
+    return (
+        anchorRect.bottom <= collisionRect.top ||
+        anchorRect.top >= collisionRect.bottom ||
+        anchorRect.right <= collisionRect.left ||
+        anchorRect.left >= collisionRect.right
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function getArrowPosition(
+    pos: { x: number; y: number },
+    anchorRect: DOMRect,
+    floatingSize: Size,
+    arrowSize: Size,
+    side: PhysicalSide,
+    arrowPadding: number
+): ArrowResult {
+    const vertical = isVertical(side);
+
+    const floatingLength = vertical ? floatingSize.width : floatingSize.height;
+    const arrowLength = vertical ? arrowSize.width : arrowSize.height;
+
+    const anchorCenter = vertical
+        ? anchorRect.left + anchorRect.width / 2 - pos.x
+        : anchorRect.top + anchorRect.height / 2 - pos.y;
+
+    const centered = anchorCenter - arrowLength / 2;
+
+    // Keep the arrow clear of the popup's rounded corners; if the popup is too small to fit it, center it.
+    const min = arrowPadding;
+    const max = floatingLength - arrowPadding - arrowLength;
+
+    const offset = max < min
+        ? (floatingLength - arrowLength) / 2
+        : Math.max(min, Math.min(centered, max));
+
+    return {
+        x: vertical ? offset : null,
+        y: vertical ? null : offset,
+        uncentered: Math.abs(offset - centered) > 0.5,
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+// Transforms, filters, containment and their `will-change` hints make an element the containing block
+// of `position: fixed` descendants, so those are no longer placed against the viewport.
+function isContainingBlock(element: Element): boolean {
+    const style = getComputedStyle(element);
+
+    return (
+        style.transform !== "none" ||
+        style.translate !== "none" ||
+        style.scale !== "none" ||
+        style.rotate !== "none" ||
+        style.perspective !== "none" ||
+        style.filter !== "none" ||
+        style.backdropFilter !== "none" ||
+        /transform|translate|scale|rotate|perspective|filter/.test(style.willChange) ||
+        /paint|layout|strict|content/.test(style.contain) ||
+        style.containerType !== "normal"
+    );
+}
+
+function getContainingBlock(floatingEl: HTMLElement, positionMethod: "fixed" | "absolute"): HTMLElement | null {
+    let current = floatingEl.parentElement;
+
+    while (current && current !== floatingEl.ownerDocument.documentElement) {
+        if (isContainingBlock(current)) return current;
+        if (positionMethod === "absolute" && getComputedStyle(current).position !== "static") return current;
+
+        current = current.parentElement;
+    }
+
+    return null;
+}
+
+interface ContainingBlockOrigin extends Point {
+    scaleX: number;
+    scaleY: number;
+}
+
+/**
+ * Client coordinates of the origin that `top`/`left` are measured from, i.e. the containing block's
+ * padding box shifted by its scroll, along with any scale applied to it.
+ */
+function getContainingBlockOrigin(floatingEl: HTMLElement, positionMethod: "fixed" | "absolute"): ContainingBlockOrigin {
+    const block = getContainingBlock(floatingEl, positionMethod);
+
+    if (!block) {
+        // Without one, fixed elements use the viewport and absolute ones the document origin.
+        const win = floatingEl.ownerDocument.defaultView ?? window;
+
+        return positionMethod === "absolute"
+            ? { x: -win.scrollX, y: -win.scrollY, scaleX: 1, scaleY: 1 }
+            : { x: 0, y: 0, scaleX: 1, scaleY: 1 }
+    }
+
+    const rect = block.getBoundingClientRect();
+    const scaleX = block.offsetWidth ? rect.width / block.offsetWidth : 1;
+    const scaleY = block.offsetHeight ? rect.height / block.offsetHeight : 1;
+
+    return {
+        x: rect.left + (block.clientLeft - block.scrollLeft) * scaleX,
+        y: rect.top + (block.clientTop - block.scrollTop) * scaleY,
+        scaleX,
+        scaleY,
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+/**
+ * Limits the floating element to the space available on its resolved side. When the natural size
+ * exceeds that space on the top/left side, the element is moved towards the anchor so that, once
+ * shrunk by the max size, it stays attached instead of leaving a gap.
+ */
+function constrainToAvailableSize(
+    pos: { x: number; y: number },
+    floatingSize: Size,
+    side: PhysicalSide,
+    availableWidth: number,
+    availableHeight: number
+): { x: number; y: number; maxWidth: number | null; maxHeight: number | null } {
+    const heightOverflow = floatingSize.height - availableHeight;
+    const widthOverflow = floatingSize.width - availableWidth;
+    const vertical = isVertical(side);
+
+    return {
+        x: side === "left" && widthOverflow > 0 ? pos.x + widthOverflow : pos.x,
+        y: side === "top" && heightOverflow > 0 ? pos.y + heightOverflow : pos.y,
+        maxWidth: vertical ? null : availableWidth,
+        maxHeight: vertical ? availableHeight : null,
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function computePosition(
+    anchorEl: Element | VirtualElement,
+    floatingEl: HTMLElement,
+    options: ComputePositionOptions = {}
+): PositionResult {
+    const {
+        side = DEFAULT_SIDE,
+        sideOffset = DEFAULT_SIDE_OFFSET,
+        align = DEFAULT_ALIGN,
+        alignOffset = DEFAULT_ALIGN_OFFSET,
+        collisionAvoidance = DEFAULT_COLLISION_AVOIDANCE,
+        collisionBoundary = DEFAULT_COLLISION_BOUNDARY,
+        collisionPadding = DEFAULT_COLLISION_PADDING,
+        sticky = DEFAULT_STICKY,
+        positionMethod = DEFAULT_POSITION_METHOD,
+        constrainSize = false,
+    } = options;
+
+    const contextEl = getContextElement(anchorEl);
+    const frameChain = getFrameChain(contextEl, floatingEl);
+
+    const anchorRect = translateRect(anchorEl.getBoundingClientRect(), frameChain[0]?.offset ?? { x: 0, y: 0 });
+
+    const floatingRect = floatingEl.getBoundingClientRect();
+
+    const floatingSize = options.floatingSize ?? {
+        width: floatingRect.width || floatingEl.offsetWidth,
+        height: floatingRect.height || floatingEl.offsetHeight,
+    }
+
+    const origin = getContainingBlockOrigin(floatingEl, positionMethod);
+
+    const dir = options.dir ?? getDirection(contextEl);
+    const physicalSide = resolveLogicalSide(side, dir);
+    const padding = normalizePadding(collisionPadding);
+    const collisionRect = getCollisionRect(collisionBoundary, frameChain, floatingEl);
+
+    const offsetData: OffsetFunctionData = {
+        side: physicalSide,
+        align,
+        anchor: { width: anchorRect.width, height: anchorRect.height },
+        positioner: floatingSize,
+    }
+
+    const initialState: MiddlewareState = {
+        x: 0,
+        y: 0,
+        side: options.forceSide ?? physicalSide,
+        align,
+
+        anchorRect,
+        floatingSize,
+        collisionRect,
+        padding,
+
+        sideOffset: resolveOffset(sideOffset, offsetData),
+        alignOffset: resolveOffset(alignOffset, offsetData),
+        collisionAvoidance,
+        sticky,
+        dir,
+
+        elements: { anchor: anchorEl, floating: floatingEl },
+        data: {},
+    }
+
+    // A forced side skips side selection entirely.
+    const middleware = (options.middleware ?? getDefaultMiddleware())
+        .filter(({ name }) => !(options.forceSide && name === "flip"));
+
+    if (options.arrow) middleware.push(arrow(options.arrow));
+
+    const { side: actualSide, align: actualAlign, data, ...finalState } = middleware.reduce(
+        (state, { fn }) => fn(state),
+        initialState
+    );
+
+    const { availableWidth, availableHeight } = getAvailableDimensions(
+        anchorRect,
+        collisionRect,
+        padding,
+        actualSide,
+        initialState.sideOffset
+    );
+
+    const { x, y, maxWidth, maxHeight } = constrainSize
+        ? constrainToAvailableSize(finalState, floatingSize, actualSide, availableWidth, availableHeight)
+        : { x: finalState.x, y: finalState.y, maxWidth: null, maxHeight: null }
+
+    const renderedSize = {
+        width: Math.min(floatingSize.width, maxWidth ?? Infinity),
+        height: Math.min(floatingSize.height, maxHeight ?? Infinity),
+    }
+
+    const escapedOverflow = getOverflow({ x, y }, renderedSize, collisionRect, normalizePadding(0));
+
+    // Everything above is in client coordinates; `top`/`left` and max sizes apply in the containing block's space.
+    return {
+        x: (x - origin.x) / origin.scaleX,
+        y: (y - origin.y) / origin.scaleY,
+        actualSide,
+        actualAlign,
+        arrow: data.arrow ?? null,
+        anchorHidden: isAnchorHidden(anchorRect, collisionRect),
+        // Ignore sub-pixel overflow from rounding so the state does not flicker at the boundary.
+        escaped: getTotalOverflow(escapedOverflow) > 0.5,
+        anchorWidth: anchorRect.width,
+        anchorHeight: anchorRect.height,
+        availableWidth,
+        availableHeight,
+        maxWidth: maxWidth !== null ? maxWidth / origin.scaleX : null,
+        maxHeight: maxHeight !== null ? maxHeight / origin.scaleY : null,
+        transformOrigin: getTransformOrigin(actualSide, actualAlign, dir),
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export type MatchAnchorWidth = "min" | "exact" | "none";
+
+function measureNaturalSize(floatingEl: HTMLElement): Size {
+    const previousStyles = {
+        maxHeight: floatingEl.style.maxHeight,
+        maxWidth: floatingEl.style.maxWidth,
+    };
+
+    // Temporarily remove size constraints so side selection uses the natural content size.
+    floatingEl.style.maxHeight = "none";
+    floatingEl.style.maxWidth = "none";
+
+    const measuredSize = {
+        width: floatingEl.scrollWidth,
+        height: floatingEl.scrollHeight,
+    };
+
+    floatingEl.style.maxHeight = previousStyles.maxHeight;
+    floatingEl.style.maxWidth = previousStyles.maxWidth;
+
+    return measuredSize;
+}
+
+function getMatchedSize(naturalSize: Size, anchorWidth: number, matchAnchorWidth: MatchAnchorWidth): Size {
+    switch (matchAnchorWidth) {
+        case "exact": return { ...naturalSize, width: anchorWidth }
+        case "min": return { ...naturalSize, width: Math.max(naturalSize.width, anchorWidth) }
+        case "none": return naturalSize;
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export interface ItemAlignedPositionOptions {
+    triggerEl: Element;
+    floatingEl: HTMLElement;
+    /** The element that scrolls the items, usually a viewport inside the floating element. */
+    scrollerEl: HTMLElement;
+    itemEl: Element;
+    /** Text inside the item; lined up with `valueEl` when both are given, otherwise the item is lined up with the trigger. */
+    itemTextEl?: Element | null;
+    valueEl?: Element | null;
+    padding?: number;
+}
+
+export interface ItemAlignedPosition {
+    x: number;
+    y: number;
+    /** Scroll position for `scrollerEl` that keeps the item over the trigger after clamping to the viewport. */
+    scrollTop: number;
+}
+
+/**
+ * Whether there is enough room to overlay the popup on the trigger. When there is not, callers fall
+ * back to regular side placement.
+ */
+function canAlignItemWithTrigger(triggerEl: Element, minHeight: number): boolean {
+    const triggerRect = triggerEl.getBoundingClientRect();
+    const viewportHeight = window.innerHeight;
+
+    if (triggerRect.top < 20 || triggerRect.bottom > viewportHeight - 20) return false;
+    if (viewportHeight - triggerRect.top < minHeight) return false;
+
+    return true;
+}
+
+/**
+ * Overlays the popup on the trigger so that an item, usually the selected one, sits exactly where the
+ * trigger shows its value, like native macOS menus. Coordinates are for `position: fixed`.
+ */
+function computeItemAlignedPosition({
+    triggerEl,
+    floatingEl,
+    scrollerEl,
+    itemEl,
+    itemTextEl,
+    valueEl,
+    padding = 8,
+}: ItemAlignedPositionOptions): ItemAlignedPosition {
+    const floatingRect = floatingEl.getBoundingClientRect();
+
+    const [sourceRect, targetRect] = itemTextEl && valueEl
+        ? [itemTextEl.getBoundingClientRect(), valueEl.getBoundingClientRect()]
+        : [itemEl.getBoundingClientRect(), triggerEl.getBoundingClientRect()];
+
+    // Offset of the item within the popup, wherever the popup currently is.
+    const desiredTop = targetRect.top - (sourceRect.top - floatingRect.top);
+    const desiredLeft = targetRect.left - (sourceRect.left - floatingRect.left);
+
+    const viewportWidth = document.documentElement.clientWidth;
+    const viewportHeight = document.documentElement.clientHeight;
+    const floatingWidth = floatingEl.offsetWidth;
+    const floatingHeight = floatingEl.offsetHeight;
+
+    const x = Math.max(padding, Math.min(desiredLeft, viewportWidth - floatingWidth - padding));
+
+    const y = floatingHeight > viewportHeight - 2 * padding
+        ? padding
+        : Math.max(padding, Math.min(desiredTop, viewportHeight - floatingHeight - padding));
+
+    // When clamping moved the popup, scroll its content by the same amount so the item stays on the trigger.
+    return {
+        x,
+        y,
+        scrollTop: Math.max(0, scrollerEl.scrollTop + y - desiredTop),
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export interface AutoUpdateOptions {
+    /** Listen for scroll on every scrollable ancestor of the anchor and the floating element. */
+    ancestorScroll?: boolean;
+    /** Listen for window and visual viewport resizes. */
+    ancestorResize?: boolean;
+    /** Observe the size of the anchor and the floating element. */
+    elementResize?: boolean;
+    /** Recheck the anchor rect after DOM mutations that may have moved it without scrolling. */
+    layoutShift?: boolean;
+    /** Recheck the anchor rect on every animation frame, for anchors that are being animated. */
+    animationFrame?: boolean;
+}
+
+export type AutoUpdateReason = "scroll" | "resize" | "layout-shift";
+
+// Continues through same-origin iframes, since scrolling any of their documents moves the anchor too.
+function getScrollAncestors(element: Element): Array<Element | Window> {
+    const ancestors: Array<Element | Window> = [];
+    let current: Element | null = element.parentElement;
+
+    while (current && current !== current.ownerDocument.documentElement) {
+        const style = getComputedStyle(current);
+        const overflow = style.overflow + style.overflowX + style.overflowY;
+        if (/auto|scroll|overlay/.test(overflow)) ancestors.push(current);
+
+        current = current.parentElement;
+    }
+
+    const win = element.ownerDocument.defaultView;
+    if (!win) return ancestors;
+
+    ancestors.push(win);
+
+    const frame = win.frameElement;
+    return frame ? [...ancestors, ...getScrollAncestors(frame)] : ancestors;
+}
+
+function isSameRect(a: DOMRect | null, b: DOMRect): boolean {
+    return (
+        !!a &&
+        a.x === b.x &&
+        a.y === b.y &&
+        a.width === b.width &&
+        a.height === b.height
+    );
+}
+
+/**
+ * Calls `update` whenever the anchor or floating element may have moved or resized, and returns a
+ * cleanup function that removes every listener, observer and pending frame.
+ */
+function autoUpdate(
+    anchorEl: Element | VirtualElement,
+    floatingEl: HTMLElement,
+    update: (reason: AutoUpdateReason) => void,
+    options: AutoUpdateOptions = {}
+): () => void {
+    const {
+        ancestorScroll = true,
+        ancestorResize = true,
+        elementResize = true,
+        layoutShift = true,
+        animationFrame = false,
+    } = options;
+
+    const contextEl = getContextElement(anchorEl);
+    const cleanups: Array<() => void> = [];
+
+    if (ancestorScroll) {
+        const ancestors = new Set([
+            ...(contextEl ? getScrollAncestors(contextEl) : [window]),
+            ...getScrollAncestors(floatingEl),
+        ]);
+
+        const scrollHandler = () => update("scroll");
+
+        ancestors.forEach((ancestor) => {
+            ancestor.addEventListener("scroll", scrollHandler, { passive: true });
+            cleanups.push(() => ancestor.removeEventListener("scroll", scrollHandler));
+        });
+
+        // Panning a pinch-zoomed page scrolls the visual viewport without scrolling the window.
+        window.visualViewport?.addEventListener("scroll", scrollHandler, { passive: true });
+        cleanups.push(() => window.visualViewport?.removeEventListener("scroll", scrollHandler));
+    }
+
+    if (isVirtualElement(anchorEl) && anchorEl.subscribe) {
+        cleanups.push(anchorEl.subscribe(() => update("layout-shift")));
+    }
+
+    if (ancestorResize) {
+        const resizeHandler = () => update("resize");
+
+        window.addEventListener("resize", resizeHandler, { passive: true });
+        window.visualViewport?.addEventListener("resize", resizeHandler, { passive: true });
+
+        cleanups.push(() => {
+            window.removeEventListener("resize", resizeHandler);
+            window.visualViewport?.removeEventListener("resize", resizeHandler);
+        });
+    }
+
+    if (elementResize) {
+        // The observer fires once on observe; skip that so subscribing does not cause a redundant update.
+        let initialized = false;
+
+        const observer = new ResizeObserver(() => {
+            if (initialized) update("resize");
+        });
+
+        if (contextEl && !isVirtualElement(anchorEl)) observer.observe(contextEl);
+        observer.observe(floatingEl);
+
+        const frameId = requestAnimationFrame(() => { initialized = true });
+
+        cleanups.push(() => {
+            cancelAnimationFrame(frameId);
+            observer.disconnect();
+        });
+    }
+
+    let previousRect: DOMRect | null = anchorEl.getBoundingClientRect();
+
+    const checkLayoutShift = () => {
+        const rect = anchorEl.getBoundingClientRect();
+        if (!isSameRect(previousRect, rect)) update("layout-shift");
+        previousRect = rect;
+    }
+
+    if (layoutShift && !animationFrame) {
+        let frameId: number | null = null;
+
+        // Batch bursts of mutations into a single rect comparison on the next frame.
+        const observer = new MutationObserver(() => {
+            if (frameId !== null) return;
+
+            frameId = requestAnimationFrame(() => {
+                frameId = null;
+                checkLayoutShift();
+            });
+        });
+
+        observer.observe(document.body, {
+            attributes: true,
+            attributeFilter: ["class", "style", "hidden"],
+            childList: true,
+            subtree: true,
+            characterData: true,
+        });
+
+        cleanups.push(() => {
+            if (frameId !== null) cancelAnimationFrame(frameId);
+            observer.disconnect();
+        });
+    }
+
+    if (animationFrame) {
+        let frameId = requestAnimationFrame(function loop() {
+            checkLayoutShift();
+            frameId = requestAnimationFrame(loop);
+        });
+
+        cleanups.push(() => cancelAnimationFrame(frameId));
+    }
+
+    return () => {
+        cleanups.forEach((cleanup) => cleanup());
+        previousRect = null;
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export {
+    computePosition,
+    autoUpdate,
+    isVirtualElement,
+    getDirection,
+    resolveLogicalSide,
+    measureNaturalSize,
+    getMatchedSize,
+    canAlignItemWithTrigger,
+    computeItemAlignedPosition,
+
+    getDefaultMiddleware,
+    place,
+    flip,
+    shift,
+    flipAlign,
+    arrow,
+
+    DEFAULT_SIDE,
+    DEFAULT_SIDE_OFFSET,
+    DEFAULT_ALIGN,
+    DEFAULT_ALIGN_OFFSET,
+    DEFAULT_COLLISION_AVOIDANCE,
+    DEFAULT_COLLISION_BOUNDARY,
+    DEFAULT_COLLISION_PADDING,
+    DEFAULT_STICKY,
+    DEFAULT_POSITION_METHOD,
+    DEFAULT_ARROW_PADDING,
+}
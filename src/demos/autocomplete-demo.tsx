@@ -386,16 +386,16 @@ export function AutocompleteDemo() {
                 <div className="space-y-3">
                     <h3 className="text-sm font-medium text-muted-write">Positioning: Sticky Behavior</h3>
                     <div className="flex flex-wrap items-start gap-6">
-                        <Autocomplete defaultValue="Sticky: Partial">
+                        <Autocomplete defaultValue="Sticky: Off">
                             <AutocompleteTrigger className="w-64">
-                                <AutocompleteInput placeholder="sticky: partial" />
+                                <AutocompleteInput placeholder="sticky: false" />
                                 <AutocompleteTriggerIndicator />
                             </AutocompleteTrigger>
                             <AutocompletePortal>
-                                <AutocompleteContent sticky="partial">
+                                <AutocompleteContent sticky={false}>
                                     <AutocompleteViewport>
                                         <AutocompleteEmpty />
-                                        <AutocompleteItem value="partial"><AutocompleteItemText>Sticky: Partial</AutocompleteItemText><AutocompleteItemIndicator /></AutocompleteItem>
+                                        <AutocompleteItem value="partial"><AutocompleteItemText>Sticky: Off</AutocompleteItemText><AutocompleteItemIndicator /></AutocompleteItem>
                                         <AutocompleteItem value="desc"><AutocompleteItemText>Detaches when trigger is out of bounds</AutocompleteItemText><AutocompleteItemIndicator /></AutocompleteItem>
                                         <AutocompleteItem value="opt3"><AutocompleteItemText>Option 3</AutocompleteItemText><AutocompleteItemIndicator /></AutocompleteItem>
                                     </AutocompleteViewport>
@@ -403,16 +403,16 @@ export function AutocompleteDemo() {
                             </AutocompletePortal>
                         </Autocomplete>
 
-                        <Autocomplete defaultValue="Sticky: Always">
+                        <Autocomplete defaultValue="Sticky: On">
                             <AutocompleteTrigger className="w-64">
-                                <AutocompleteInput placeholder="sticky: always" />
+                                <AutocompleteInput placeholder="sticky: true" />
                                 <AutocompleteTriggerIndicator />
                             </AutocompleteTrigger>
                             <AutocompletePortal>
-                                <AutocompleteContent sticky="always">
+                                <AutocompleteContent sticky={true}>
                                     <AutocompleteViewport>
                                         <AutocompleteEmpty />
-                                        <AutocompleteItem value="always"><AutocompleteItemText>Sticky: Always</AutocompleteItemText><AutocompleteItemIndicator /></AutocompleteItem>
+                                        <AutocompleteItem value="always"><AutocompleteItemText>Sticky: On</AutocompleteItemText><AutocompleteItemIndicator /></AutocompleteItem>
                                         <AutocompleteItem value="desc"><AutocompleteItemText>Always stays in viewport</AutocompleteItemText><AutocompleteItemIndicator /></AutocompleteItem>
                                         <AutocompleteItem value="opt3"><AutocompleteItemText>Option 3</AutocompleteItemText><AutocompleteItemIndicator /></AutocompleteItem>
                                     </AutocompleteViewport>
@@ -465,7 +465,7 @@ export function AutocompleteDemo() {
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
                                     <AutocompleteContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={4}
                                     >
                                         <AutocompleteViewport>
@@ -486,7 +486,7 @@ export function AutocompleteDemo() {
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
                                     <AutocompleteContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={16}
                                     >
                                         <AutocompleteViewport>
@@ -507,7 +507,7 @@ export function AutocompleteDemo() {
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
                                     <AutocompleteContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={32}
                                     >
                                         <AutocompleteViewport>
@@ -528,7 +528,7 @@ export function AutocompleteDemo() {
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
                                     <AutocompleteContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={{ top: 8, right: 16, bottom: 24, left: 32 }}
                                     >
                                         <AutocompleteViewport>
@@ -560,7 +560,7 @@ export function AutocompleteDemo() {
                                     <AutocompleteTriggerIndicator />
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
-                                    <AutocompleteContent collisionBoundary={collisionBoundary2}>
+                                    <AutocompleteContent collisionBoundary={collisionBoundary2 ?? undefined}>
                                         <AutocompleteScrollUpButton />
                                         <AutocompleteViewport className="max-h-64">
                                             <AutocompleteEmpty />
@@ -582,7 +582,7 @@ export function AutocompleteDemo() {
                                     <AutocompleteTriggerIndicator />
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
-                                    <AutocompleteContent collisionBoundary={collisionBoundary2}>
+                                    <AutocompleteContent collisionBoundary={collisionBoundary2 ?? undefined}>
                                         <AutocompleteScrollUpButton />
                                         <AutocompleteViewport className="max-h-64">
                                             <AutocompleteEmpty />
@@ -604,7 +604,7 @@ export function AutocompleteDemo() {
                                     <AutocompleteTriggerIndicator />
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
-                                    <AutocompleteContent collisionBoundary={collisionBoundary2}>
+                                    <AutocompleteContent collisionBoundary={collisionBoundary2 ?? undefined}>
                                         <AutocompleteScrollUpButton />
                                         <AutocompleteViewport className="max-h-64">
                                             <AutocompleteEmpty />
@@ -636,13 +636,13 @@ export function AutocompleteDemo() {
                         <div className="h-150 flex flex-col justify-between">
                             <Autocomplete defaultValue="Hide When Detached">
                                 <AutocompleteTrigger>
-                                    <AutocompleteInput placeholder="hideWhenDetached: true" />
+                                    <AutocompleteInput placeholder="hideWhenDetached: hide" />
                                     <AutocompleteTriggerIndicator />
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
                                     <AutocompleteContent
-                                        collisionBoundary={collisionBoundary3}
-                                        hideWhenDetached={true}
+                                        collisionBoundary={collisionBoundary3 ?? undefined}
+                                        hideWhenDetached="hide"
                                     >
                                         <AutocompleteViewport>
                                             <AutocompleteEmpty />
@@ -661,8 +661,8 @@ export function AutocompleteDemo() {
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
                                     <AutocompleteContent
-                                        collisionBoundary={collisionBoundary3}
-                                        hideWhenDetached={true}
+                                        collisionBoundary={collisionBoundary3 ?? undefined}
+                                        hideWhenDetached="hide"
                                     >
                                         <AutocompleteViewport>
                                             <AutocompleteEmpty />
@@ -681,8 +681,8 @@ export function AutocompleteDemo() {
                                 </AutocompleteTrigger>
                                 <AutocompletePortal>
                                     <AutocompleteContent
-                                        collisionBoundary={collisionBoundary3}
-                                        hideWhenDetached={true}
+                                        collisionBoundary={collisionBoundary3 ?? undefined}
+                                        hideWhenDetached="hide"
                                     >
                                         <AutocompleteViewport>
                                             <AutocompleteEmpty />
@@ -897,6 +897,33 @@ export function AutocompleteDemo() {
                         </AutocompletePortal>
                     </Autocomplete>
                 </div>
+
+                <div className="space-y-3">
+                    <h3 className="text-sm font-medium text-muted-write">Inline Completion Example</h3>
+                    <p className="text-xs text-muted-write">The first matching country is completed in the input; Backspace removes the suggestion.</p>
+                    <Autocomplete inlineComplete>
+                        <AutocompleteTrigger>
+                            <AutocompleteInput placeholder="Start typing a country..." />
+
+                            <AutocompleteTriggerIndicator />
+                        </AutocompleteTrigger>
+
+                        <AutocompletePortal>
+                            <AutocompleteContent>
+                                <AutocompleteViewport>
+                                    <AutocompleteEmpty>No countries found.</AutocompleteEmpty>
+
+                                    {countries.map((country) => (
+                                        <AutocompleteItem key={country.value} value={country.label}>
+                                            <AutocompleteItemText>{country.label}</AutocompleteItemText>
+                                            <AutocompleteItemIndicator />
+                                        </AutocompleteItem>
+                                    ))}
+                                </AutocompleteViewport>
+                            </AutocompleteContent>
+                        </AutocompletePortal>
+                    </Autocomplete>
+                </div>
             </div>
         </section>
     );
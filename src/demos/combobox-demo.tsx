@@ -10,14 +10,20 @@ import {
     ComboboxContent,
     ComboboxViewport,
     ComboboxEmpty,
+    ComboboxLimit,
+    ComboboxCreate,
+    ComboboxLoading,
+    ComboboxError,
     ComboboxItem,
     ComboboxItemText,
+    ComboboxItemHighlight,
     ComboboxItemIndicator,
     ComboboxGroup,
     ComboboxLabel,
     ComboboxSeparator,
     ComboboxScrollUpButton,
     ComboboxScrollDownButton,
+    type ComboboxLoadOptionsFunction,
 } from "../ui/combobox";
 
 const countries = [
@@ -33,7 +39,36 @@ const countries = [
     { value: "br", label: "Brazil" },
 ];
 
+// Stands in for a search endpoint: answers after a delay, honours the abort signal and fails on "error".
+const searchCountries: ComboboxLoadOptionsFunction = (query, { signal }) => new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+        if (query.toLowerCase() === "error") reject(new Error("Search failed"));
+        else resolve(countries.filter(country => country.label.toLowerCase().includes(query.toLowerCase())));
+    }, 600);
+
+    signal.addEventListener("abort", () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+    });
+});
+
 export function ComboboxDemo() {
+    const [tags, setTags] = useState([
+        { value: "react", label: "React" },
+        { value: "typescript", label: "TypeScript" },
+    ]);
+
+    // Validates like a server would: slow, and rejecting labels that are too short.
+    const createTag = (label: string) => new Promise<string>((resolve, reject) => {
+        setTimeout(() => {
+            if (label.length < 2) return reject(new Error(`"${label}" is too short`));
+
+            const value = label.toLowerCase().replace(/\s+/g, "-");
+            setTags(prev => [...prev, { value, label }]);
+            resolve(value);
+        }, 300);
+    });
+
     const [collisionBoundary, setCollisionBoundary] = useState<HTMLDivElement | null>(null);
     const [collisionBoundary2, setCollisionBoundary2] = useState<HTMLDivElement | null>(null);
     const [collisionBoundary3, setCollisionBoundary3] = useState<HTMLDivElement | null>(null);
@@ -480,14 +515,14 @@ export function ComboboxDemo() {
                     <div className="flex flex-wrap items-start gap-6">
                         <Combobox defaultValue="partial">
                             <ComboboxTrigger className="w-64">
-                                <ComboboxInput placeholder="sticky: partial" />
+                                <ComboboxInput placeholder="sticky: false" />
                                 <ComboboxTriggerIndicator />
                             </ComboboxTrigger>
                             <ComboboxPortal>
-                                <ComboboxContent sticky="partial">
+                                <ComboboxContent sticky={false}>
                                     <ComboboxViewport>
                                         <ComboboxEmpty />
-                                        <ComboboxItem value="partial"><ComboboxItemText>Sticky: Partial</ComboboxItemText><ComboboxItemIndicator /></ComboboxItem>
+                                        <ComboboxItem value="partial"><ComboboxItemText>Sticky: Off</ComboboxItemText><ComboboxItemIndicator /></ComboboxItem>
                                         <ComboboxItem value="desc"><ComboboxItemText>Detaches when trigger is out of bounds</ComboboxItemText><ComboboxItemIndicator /></ComboboxItem>
                                         <ComboboxItem value="opt3"><ComboboxItemText>Option 3</ComboboxItemText><ComboboxItemIndicator /></ComboboxItem>
                                     </ComboboxViewport>
@@ -497,14 +532,14 @@ export function ComboboxDemo() {
 
                         <Combobox defaultValue="always">
                             <ComboboxTrigger className="w-64">
-                                <ComboboxInput placeholder="sticky: always" />
+                                <ComboboxInput placeholder="sticky: true" />
                                 <ComboboxTriggerIndicator />
                             </ComboboxTrigger>
                             <ComboboxPortal>
-                                <ComboboxContent sticky="always">
+                                <ComboboxContent sticky={true}>
                                     <ComboboxViewport>
                                         <ComboboxEmpty />
-                                        <ComboboxItem value="always"><ComboboxItemText>Sticky: Always</ComboboxItemText><ComboboxItemIndicator /></ComboboxItem>
+                                        <ComboboxItem value="always"><ComboboxItemText>Sticky: On</ComboboxItemText><ComboboxItemIndicator /></ComboboxItem>
                                         <ComboboxItem value="desc"><ComboboxItemText>Always stays in viewport</ComboboxItemText><ComboboxItemIndicator /></ComboboxItem>
                                         <ComboboxItem value="opt3"><ComboboxItemText>Option 3</ComboboxItemText><ComboboxItemIndicator /></ComboboxItem>
                                     </ComboboxViewport>
@@ -556,7 +591,7 @@ export function ComboboxDemo() {
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
                                     <ComboboxContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={4}
                                     >
                                         <ComboboxViewport>
@@ -577,7 +612,7 @@ export function ComboboxDemo() {
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
                                     <ComboboxContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={16}
                                     >
                                         <ComboboxViewport>
@@ -598,7 +633,7 @@ export function ComboboxDemo() {
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
                                     <ComboboxContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={32}
                                     >
                                         <ComboboxViewport>
@@ -619,7 +654,7 @@ export function ComboboxDemo() {
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
                                     <ComboboxContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={{ top: 8, right: 16, bottom: 24, left: 32 }}
                                     >
                                         <ComboboxViewport>
@@ -651,7 +686,7 @@ export function ComboboxDemo() {
                                     <ComboboxTriggerIndicator />
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
-                                    <ComboboxContent collisionBoundary={collisionBoundary2}>
+                                    <ComboboxContent collisionBoundary={collisionBoundary2 ?? undefined}>
                                         <ComboboxScrollUpButton />
                                         <ComboboxViewport className="max-h-64">
                                             <ComboboxEmpty />
@@ -673,7 +708,7 @@ export function ComboboxDemo() {
                                     <ComboboxTriggerIndicator />
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
-                                    <ComboboxContent collisionBoundary={collisionBoundary2}>
+                                    <ComboboxContent collisionBoundary={collisionBoundary2 ?? undefined}>
                                         <ComboboxScrollUpButton />
                                         <ComboboxViewport className="max-h-64">
                                             <ComboboxEmpty />
@@ -695,7 +730,7 @@ export function ComboboxDemo() {
                                     <ComboboxTriggerIndicator />
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
-                                    <ComboboxContent collisionBoundary={collisionBoundary2}>
+                                    <ComboboxContent collisionBoundary={collisionBoundary2 ?? undefined}>
                                         <ComboboxScrollUpButton />
                                         <ComboboxViewport className="max-h-64">
                                             <ComboboxEmpty />
@@ -727,13 +762,13 @@ export function ComboboxDemo() {
                         <div className="h-150 flex flex-col justify-between">
                             <Combobox defaultValue="hide1">
                                 <ComboboxTrigger>
-                                    <ComboboxInput placeholder="hideWhenDetached: true" />
+                                    <ComboboxInput placeholder="hideWhenDetached: hide" />
                                     <ComboboxTriggerIndicator />
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
                                     <ComboboxContent
-                                        collisionBoundary={collisionBoundary3}
-                                        hideWhenDetached={true}
+                                        collisionBoundary={collisionBoundary3 ?? undefined}
+                                        hideWhenDetached="hide"
                                     >
                                         <ComboboxViewport>
                                             <ComboboxEmpty />
@@ -752,8 +787,8 @@ export function ComboboxDemo() {
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
                                     <ComboboxContent
-                                        collisionBoundary={collisionBoundary3}
-                                        hideWhenDetached={true}
+                                        collisionBoundary={collisionBoundary3 ?? undefined}
+                                        hideWhenDetached="hide"
                                     >
                                         <ComboboxViewport>
                                             <ComboboxEmpty />
@@ -772,8 +807,8 @@ export function ComboboxDemo() {
                                 </ComboboxTrigger>
                                 <ComboboxPortal>
                                     <ComboboxContent
-                                        collisionBoundary={collisionBoundary3}
-                                        hideWhenDetached={true}
+                                        collisionBoundary={collisionBoundary3 ?? undefined}
+                                        hideWhenDetached="hide"
                                     >
                                         <ComboboxViewport>
                                             <ComboboxEmpty />
@@ -976,7 +1011,7 @@ export function ComboboxDemo() {
 
                                     {countries.map((country) => (
                                         <ComboboxItem key={country.value} value={country.value}>
-                                            <ComboboxItemText>{country.label}</ComboboxItemText>
+                                            <ComboboxItemHighlight>{country.label}</ComboboxItemHighlight>
                                             <ComboboxItemIndicator />
                                         </ComboboxItem>
                                     ))}
@@ -987,6 +1022,81 @@ export function ComboboxDemo() {
                         </ComboboxPortal>
                     </Combobox>
                 </div>
+
+                <div className="space-y-3">
+                    <h3 className="text-sm font-medium text-muted-write">Remote Search Example</h3>
+                    <Combobox loadOptions={searchCountries}>
+                        <ComboboxTrigger>
+                            <ComboboxInput placeholder="Search countries (type 'error' to fail)..." />
+                            <ComboboxTriggerIndicator />
+                        </ComboboxTrigger>
+
+                        <ComboboxPortal>
+                            <ComboboxContent>
+                                <ComboboxViewport />
+                                <ComboboxLoading>Searching...</ComboboxLoading>
+                                <ComboboxError />
+                                <ComboboxEmpty>No countries found.</ComboboxEmpty>
+                            </ComboboxContent>
+                        </ComboboxPortal>
+                    </Combobox>
+                </div>
+
+                <div className="space-y-3">
+                    <h3 className="text-sm font-medium text-muted-write">Creatable Tags Example</h3>
+                    <p className="text-xs text-muted-write">Type a new tag and press Enter, or type or paste a comma separated list.</p>
+                    <Combobox multiple onCreate={createTag}>
+                        <ComboboxTrigger>
+                            <ComboboxValue placeholder="Add tags..." />
+                            <ComboboxTriggerIndicator />
+                        </ComboboxTrigger>
+
+                        <ComboboxPortal>
+                            <ComboboxContent>
+                                <ComboboxInput placeholder="Search or create tags..." />
+
+                                <ComboboxViewport>
+                                    {tags.map((tag) => (
+                                        <ComboboxItem key={tag.value} value={tag.value}>
+                                            <ComboboxItemHighlight>{tag.label}</ComboboxItemHighlight>
+                                            <ComboboxItemIndicator />
+                                        </ComboboxItem>
+                                    ))}
+
+                                    <ComboboxCreate />
+                                </ComboboxViewport>
+                            </ComboboxContent>
+                        </ComboboxPortal>
+                    </Combobox>
+                </div>
+
+                <div className="space-y-3">
+                    <h3 className="text-sm font-medium text-muted-write">Tag Input Example</h3>
+                    <p className="text-xs text-muted-write">Backspace or ArrowLeft moves into the chips, Alt+Arrow keys or dragging reorders them, and up to 4 can be picked.</p>
+                    <Combobox multiple maxSelected={4} defaultValue={["us", "uk", "ca"]}>
+                        <ComboboxTrigger className="w-80">
+                            <ComboboxValue collapse />
+                            <ComboboxInput placeholder="Add..." />
+                            <ComboboxTriggerIndicator />
+                        </ComboboxTrigger>
+
+                        <ComboboxPortal>
+                            <ComboboxContent>
+                                <ComboboxLimit />
+
+                                <ComboboxViewport>
+                                    <ComboboxEmpty />
+                                    {countries.map((country) => (
+                                        <ComboboxItem key={country.value} value={country.value}>
+                                            <ComboboxItemHighlight>{country.label}</ComboboxItemHighlight>
+                                            <ComboboxItemIndicator />
+                                        </ComboboxItem>
+                                    ))}
+                                </ComboboxViewport>
+                            </ComboboxContent>
+                        </ComboboxPortal>
+                    </Combobox>
+                </div>
             </div>
         </section>
     );
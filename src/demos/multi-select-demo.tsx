@@ -313,13 +313,13 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                     <div className="flex flex-wrap items-start gap-6">
                         <MultiSelect defaultValue={["partial"]}>
                             <MultiSelectTrigger className="w-72">
-                                <MultiSelectValue placeholder="sticky: partial" />
+                                <MultiSelectValue placeholder="sticky: false" />
                                 <MultiSelectTriggerIndicator />
                             </MultiSelectTrigger>
                             <MultiSelectPortal>
-                                <MultiSelectContent sticky="partial">
+                                <MultiSelectContent sticky={false}>
                                     <MultiSelectViewport>
-                                        <MultiSelectItem value="partial"><MultiSelectItemText>Sticky: Partial</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
+                                        <MultiSelectItem value="partial"><MultiSelectItemText>Sticky: Off</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
                                         <MultiSelectItem value="desc"><MultiSelectItemText>Detaches when trigger is out</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
                                         <MultiSelectItem value="opt3"><MultiSelectItemText>Option 3</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
                                     </MultiSelectViewport>
@@ -329,13 +329,13 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
 
                         <MultiSelect defaultValue={["always"]}>
                             <MultiSelectTrigger className="w-72">
-                                <MultiSelectValue placeholder="sticky: always" />
+                                <MultiSelectValue placeholder="sticky: true" />
                                 <MultiSelectTriggerIndicator />
                             </MultiSelectTrigger>
                             <MultiSelectPortal>
-                                <MultiSelectContent sticky="always">
+                                <MultiSelectContent sticky={true}>
                                     <MultiSelectViewport>
-                                        <MultiSelectItem value="always"><MultiSelectItemText>Sticky: Always</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
+                                        <MultiSelectItem value="always"><MultiSelectItemText>Sticky: On</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
                                         <MultiSelectItem value="desc"><MultiSelectItemText>Always stays in viewport</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
                                         <MultiSelectItem value="opt3"><MultiSelectItemText>Option 3</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
                                     </MultiSelectViewport>
@@ -386,7 +386,7 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
                                     <MultiSelectContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={4}
                                     >
                                         <MultiSelectViewport>
@@ -406,7 +406,7 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
                                     <MultiSelectContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={16}
                                     >
                                         <MultiSelectViewport>
@@ -426,7 +426,7 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
                                     <MultiSelectContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={32}
                                     >
                                         <MultiSelectViewport>
@@ -446,7 +446,7 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
                                     <MultiSelectContent
-                                        collisionBoundary={collisionBoundary}
+                                        collisionBoundary={collisionBoundary ?? undefined}
                                         collisionPadding={{ top: 8, right: 16, bottom: 24, left: 32 }}
                                     >
                                         <MultiSelectViewport>
@@ -477,7 +477,7 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                                     <MultiSelectTriggerIndicator />
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
-                                    <MultiSelectContent collisionBoundary={collisionBoundary2}>
+                                    <MultiSelectContent collisionBoundary={collisionBoundary2 ?? undefined}>
                                         <MultiSelectScrollUpButton />
                                         <MultiSelectViewport className="max-h-64">
                                             {Array.from({ length: 50 }, (_, i) => (
@@ -498,7 +498,7 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                                     <MultiSelectTriggerIndicator />
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
-                                    <MultiSelectContent collisionBoundary={collisionBoundary2}>
+                                    <MultiSelectContent collisionBoundary={collisionBoundary2 ?? undefined}>
                                         <MultiSelectScrollUpButton />
                                         <MultiSelectViewport className="max-h-64">
                                             {Array.from({ length: 50 }, (_, i) => (
@@ -519,7 +519,7 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                                     <MultiSelectTriggerIndicator />
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
-                                    <MultiSelectContent collisionBoundary={collisionBoundary2}>
+                                    <MultiSelectContent collisionBoundary={collisionBoundary2 ?? undefined}>
                                         <MultiSelectScrollUpButton />
                                         <MultiSelectViewport className="max-h-64">
                                             {Array.from({ length: 50 }, (_, i) => (
@@ -550,13 +550,13 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                         <div className="h-150 flex flex-col justify-between">
                             <MultiSelect defaultValue={["hide1"]}>
                                 <MultiSelectTrigger>
-                                    <MultiSelectValue placeholder="hideWhenDetached: true" />
+                                    <MultiSelectValue placeholder="hideWhenDetached: hide" />
                                     <MultiSelectTriggerIndicator />
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
                                     <MultiSelectContent
-                                        collisionBoundary={collisionBoundary3}
-                                        hideWhenDetached={true}
+                                        collisionBoundary={collisionBoundary3 ?? undefined}
+                                        hideWhenDetached="hide"
                                     >
                                         <MultiSelectViewport>
                                             <MultiSelectItem value="hide1"><MultiSelectItemText>Hide When Detached</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
@@ -574,8 +574,8 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
                                     <MultiSelectContent
-                                        collisionBoundary={collisionBoundary3}
-                                        hideWhenDetached={true}
+                                        collisionBoundary={collisionBoundary3 ?? undefined}
+                                        hideWhenDetached="hide"
                                     >
                                         <MultiSelectViewport>
                                             <MultiSelectItem value="hide2"><MultiSelectItemText>Middle Trigger</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
@@ -593,8 +593,8 @@ export function MultiSelectDemo({ selectedFruits, setSelectedFruits }: MultiSele
                                 </MultiSelectTrigger>
                                 <MultiSelectPortal>
                                     <MultiSelectContent
-                                        collisionBoundary={collisionBoundary3}
-                                        hideWhenDetached={true}
+                                        collisionBoundary={collisionBoundary3 ?? undefined}
+                                        hideWhenDetached="hide"
                                     >
                                         <MultiSelectViewport>
                                             <MultiSelectItem value="hide3"><MultiSelectItemText>Bottom Trigger</MultiSelectItemText><MultiSelectItemIndicator /></MultiSelectItem>
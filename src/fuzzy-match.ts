@@ -0,0 +1,167 @@
+// ---------------------------------------------------------------------------------------------------- //
+
+type MatchRange = [start: number, end: number];
+
+interface FuzzyMatch {
+    /** Higher is better; only meaningful relative to other matches of the same query. */
+    score: number;
+    /** Matched ranges in the original text, sorted and non-overlapping, end exclusive. */
+    ranges: MatchRange[];
+}
+
+interface FoldedText {
+    text: string;
+    /** Index in the original text for every code unit of the folded text. */
+    indices: number[];
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/**
+ * Lowercases and strips diacritics so "É" matches "e", keeping a map back to the original text
+ * because folding can change its length.
+ */
+function foldText(text: string): FoldedText {
+    let folded = "";
+    const indices: number[] = [];
+
+    let index = 0;
+
+    for (const char of text) {
+        const foldedChar = char.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase();
+
+        for (let i = 0; i < foldedChar.length; i++) indices.push(index);
+        folded += foldedChar;
+
+        index += char.length;
+    }
+
+    indices.push(text.length);
+
+    return { text: folded, indices }
+}
+
+function isWordStart(text: string, index: number): boolean {
+    if (index === 0) return true;
+    return !/[\p{L}\p{N}]/u.test(text[index - 1]);
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+// Best place for one query token: a word-start substring, then any substring, then the token's
+// characters in order with gaps, which tolerates dropped letters.
+function matchToken(token: string, text: string): { score: number; ranges: MatchRange[] } | null {
+    let substringIndex = -1;
+
+    for (let index = text.indexOf(token); index >= 0; index = text.indexOf(token, index + 1)) {
+        if (isWordStart(text, index)) {
+            const score = index === 0 ? 1000 : 800 - index;
+            return { score, ranges: [[index, index + token.length]] }
+        }
+
+        if (substringIndex < 0) substringIndex = index;
+    }
+
+    if (substringIndex >= 0) return {
+        score: 600 - substringIndex,
+        ranges: [[substringIndex, substringIndex + token.length]],
+    }
+
+    const ranges: MatchRange[] = [];
+    let position = 0;
+    let gaps = 0;
+
+    for (const char of token) {
+        const index = text.indexOf(char, position);
+        if (index < 0) return null;
+
+        const last = ranges[ranges.length - 1];
+
+        if (last && last[1] === index) last[1] = index + 1;
+        else {
+            if (last) gaps += index - last[1];
+            ranges.push([index, index + 1]);
+        }
+
+        position = index + 1;
+    }
+
+    const wordStartBonus = isWordStart(text, ranges[0][0]) ? 50 : 0;
+    return { score: Math.max(1, 300 + wordStartBonus - ranges[0][0] - gaps * 10 - ranges.length * 5), ranges }
+}
+
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+    const merged: MatchRange[] = [];
+
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+
+        if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+        else merged.push([range[0], range[1]]);
+    }
+
+    return merged;
+}
+
+/**
+ * Matches every whitespace-separated token of `query` against `text`, ignoring case and accents.
+ * Returns `null` when any token is missing; an empty query matches with a score of 0.
+ */
+function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+    const tokens = foldText(query).text.split(/\s+/).filter(Boolean);
+    if (!tokens.length) return { score: 0, ranges: [] }
+
+    const folded = foldText(text);
+    const foldedRanges: MatchRange[] = [];
+    let score = 0;
+
+    for (const token of tokens) {
+        const match = matchToken(token, folded.text);
+        if (!match) return null;
+
+        score += match.score;
+        foldedRanges.push(...match.ranges);
+    }
+
+    if (folded.text === tokens.join(" ")) score += 1000;
+
+    // A range ends after the whole original character behind its last folded code unit.
+    const ranges = mergeRanges(foldedRanges).map(([start, end]): MatchRange => {
+        let next = end;
+        while (folded.indices[next] === folded.indices[end - 1]) next++;
+        return [folded.indices[start], folded.indices[next]];
+    });
+
+    return { score, ranges }
+}
+
+/**
+ * Keeps the entries whose text matches `query` and sorts them best first. Equal scores keep their
+ * original order.
+ */
+function fuzzyFilter<T>(query: string, entries: T[], getText: (entry: T) => string): T[] {
+    if (!query.trim()) return entries;
+
+    return entries
+        .map((entry, index) => ({ entry, index, match: fuzzyMatch(query, getText(entry)) }))
+        .filter((result): result is { entry: T; index: number; match: FuzzyMatch } => result.match !== null)
+        .sort((a, b) => b.match.score - a.match.score || a.index - b.index)
+        .map(result => result.entry);
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export {
+    fuzzyMatch,
+    fuzzyFilter,
+    foldText,
+
+    type FuzzyMatch,
+    type FoldedText,
+    type MatchRange,
+}
+
+// ---------------------------------------------------------------------------------------------------- //
@@ -0,0 +1,136 @@
+import {
+    useCallback,
+    useEffect,
+    useState,
+    useRef,
+} from "react";
+
+// ---------------------------------------------------------------------------------------------------- //
+
+type LoadOptionsFunction<T> = (query: string, options: { signal: AbortSignal }) => Promise<T[]>;
+
+type AsyncOptionsStatus = "idle" | "loading" | "loaded" | "error";
+
+interface UseAsyncOptionsOptions<T> {
+    query: string;
+    loadOptions?: LoadOptionsFunction<T>;
+
+    /** Requests only run while enabled, usually while the popup is open. */
+    enabled: boolean;
+    /** Milliseconds to wait after the last query change before requesting. */
+    debounce?: number;
+}
+
+interface UseAsyncOptionsReturn<T> {
+    status: AsyncOptionsStatus;
+    /** Results of the latest settled query; `null` until the first one resolves. */
+    options: T[] | null;
+    error: unknown;
+    retry: () => void;
+}
+
+const DEFAULT_DEBOUNCE = 300;
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function useAsyncOptions<T>({
+    query,
+    loadOptions,
+
+    enabled,
+    debounce = DEFAULT_DEBOUNCE,
+}: UseAsyncOptionsOptions<T>): UseAsyncOptionsReturn<T> {
+    const [status, setStatus] = useState<AsyncOptionsStatus>("idle");
+    const [options, setOptions] = useState<T[] | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const [attempt, setAttempt] = useState(0);
+
+    // Results are cached per query for the lifetime of the component; failures are not.
+    const cacheRef = useRef(new Map<string, T[]>());
+    const requestIdRef = useRef(0);
+
+    const loadOptionsRef = useRef(loadOptions);
+    loadOptionsRef.current = loadOptions;
+
+    const hasLoader = !!loadOptions;
+
+    useEffect(() => {
+        const load = loadOptionsRef.current;
+        if (!load) return;
+
+        // Closing aborts any request in flight, so nothing is loading until the next open.
+        if (!enabled) {
+            setStatus("idle");
+            return;
+        }
+
+        const cached = cacheRef.current.get(query);
+
+        if (cached) {
+            requestIdRef.current++;
+            setOptions(cached);
+            setError(null);
+            setStatus("loaded");
+            return;
+        }
+
+        setStatus("loading");
+
+        const requestId = ++requestIdRef.current;
+        const controller = new AbortController();
+
+        // A response only lands if no newer request started, even when the loader ignores the signal.
+        const isStale = () => controller.signal.aborted || requestId !== requestIdRef.current;
+
+        const timeout = window.setTimeout(() => {
+            // A loader that throws before returning a promise ends up in the error state too.
+            Promise.resolve().then(() => load(query, { signal: controller.signal })).then(
+                (result) => {
+                    if (isStale()) return;
+
+                    cacheRef.current.set(query, result);
+                    setOptions(result);
+                    setError(null);
+                    setStatus("loaded");
+                },
+                (reason) => {
+                    if (isStale()) return;
+
+                    setError(reason);
+                    setStatus("error");
+                }
+            );
+        }, debounce);
+
+        // Typing again, closing or unmounting cancels the pending or in-flight request.
+        return () => {
+            window.clearTimeout(timeout);
+            controller.abort();
+        }
+    }, [enabled, hasLoader, query, debounce, attempt]);
+
+    const retry = useCallback(() => {
+        setError(null);
+        setAttempt((prev) => prev + 1);
+    }, []);
+
+    return {
+        status: hasLoader ? status : "idle",
+        options: hasLoader ? options : null,
+        error,
+        retry,
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export {
+    useAsyncOptions,
+
+    type LoadOptionsFunction,
+    type AsyncOptionsStatus,
+    type UseAsyncOptionsOptions,
+    type UseAsyncOptionsReturn,
+}
+
+// ---------------------------------------------------------------------------------------------------- //
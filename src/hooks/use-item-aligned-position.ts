@@ -0,0 +1,138 @@
+import {
+    useLayoutEffect,
+    useEffect,
+    useState,
+    useRef,
+    type RefObject,
+} from "react";
+
+import {
+    canAlignItemWithTrigger,
+    computeItemAlignedPosition,
+} from "@/compute-position";
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface AlignedItem {
+    item: HTMLElement;
+    text?: HTMLElement | null;
+}
+
+interface UseItemAlignedPositionOptions {
+    /** Whether the popup asked for item alignment; it still falls back to side placement when there is no room. */
+    enabled: boolean;
+    isTargetRendered: boolean;
+
+    trigger: RefObject<HTMLElement | null>;
+    target: RefObject<HTMLElement | null>;
+    scroller?: RefObject<HTMLElement | null>;
+
+    /** Element in the trigger that shows the value; the item text is lined up with it when both exist. */
+    valueElement?: RefObject<HTMLElement | null>;
+    getAlignedItem: () => AlignedItem | null;
+
+    padding?: number;
+}
+
+interface UseItemAlignedPositionReturn {
+    isActive: boolean;
+    isPositioned: boolean;
+    top: number;
+    left: number;
+}
+
+const DEFAULT_MIN_HEIGHT = 80;
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function useItemAlignedPosition({
+    enabled,
+    isTargetRendered,
+
+    trigger,
+    target,
+    scroller,
+
+    valueElement,
+    getAlignedItem,
+
+    padding,
+}: UseItemAlignedPositionOptions): UseItemAlignedPositionReturn {
+    const [pointerType, setPointerType] = useState<string>("mouse");
+    const [isActive, setIsActive] = useState(false);
+    const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+
+    const getAlignedItemRef = useRef(getAlignedItem);
+    getAlignedItemRef.current = getAlignedItem;
+
+    // Overlaying the trigger is a pointer affordance; touch input always uses side placement.
+    useEffect(() => {
+        const triggerEl = trigger.current;
+        if (!triggerEl) return;
+
+        const handler = (event: PointerEvent) => setPointerType(event.pointerType);
+        triggerEl.addEventListener("pointerdown", handler);
+
+        return () => triggerEl.removeEventListener("pointerdown", handler);
+    }, [trigger]);
+
+    useLayoutEffect(() => {
+        const triggerEl = trigger.current;
+        const targetEl = target.current;
+
+        if (!isTargetRendered || !enabled || pointerType === "touch" || !triggerEl || !targetEl) {
+            setIsActive(false);
+            setPosition(null);
+            return;
+        }
+
+        const minHeight = parseFloat(getComputedStyle(targetEl).minHeight);
+        setIsActive(canAlignItemWithTrigger(triggerEl, isNaN(minHeight) ? DEFAULT_MIN_HEIGHT : minHeight));
+    }, [enabled, isTargetRendered, pointerType, trigger, target]);
+
+    useLayoutEffect(() => {
+        if (!isActive) return;
+
+        const triggerEl = trigger.current;
+        const targetEl = target.current;
+        const scrollerEl = scroller?.current ?? targetEl;
+        const aligned = getAlignedItemRef.current();
+
+        if (!triggerEl || !targetEl || !scrollerEl || !aligned) {
+            setIsActive(false);
+            return;
+        }
+
+        const { x, y, scrollTop } = computeItemAlignedPosition({
+            triggerEl,
+            floatingEl: targetEl,
+            scrollerEl,
+            itemEl: aligned.item,
+            itemTextEl: aligned.text,
+            valueEl: valueElement?.current,
+            padding,
+        });
+
+        scrollerEl.scrollTop = scrollTop;
+        setPosition({ top: y, left: x });
+    }, [isActive, trigger, target, scroller, valueElement, padding]);
+
+    return {
+        isActive,
+        isPositioned: isActive && position !== null,
+        top: position?.top ?? 0,
+        left: position?.left ?? 0,
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export {
+    useItemAlignedPosition,
+
+    type AlignedItem,
+    type UseItemAlignedPositionOptions,
+    type UseItemAlignedPositionReturn,
+}
+
+// ---------------------------------------------------------------------------------------------------- //
@@ -26,13 +26,23 @@ import { useControllableState } from "@/hooks/use-controllable-state";
 
 import {
     usePosition,
-    type Boundary,
-    type Padding,
-    type Sticky,
     type Align,
+    type CollisionAvoidance,
+    type CollisionBoundary,
+    type HideWhenDetached,
+    type OffsetFunction,
+    type Padding,
     type Side,
 } from "@/hooks/use-position";
 
+import {
+    useAsyncOptions,
+    type AsyncOptionsStatus,
+    type LoadOptionsFunction,
+} from "@/hooks/use-async-options";
+
+import { foldText, fuzzyFilter, fuzzyMatch } from "@/fuzzy-match";
+
 import { Slot } from "@/ui/slot";
 import { cn } from "@/cn";
 
@@ -166,6 +176,14 @@ function findEdgeEnabledIndex(items: AutocompleteItemEntry[], edge: 'first' | 'l
 
 // ---------------------------------------------------------------------------------------------------- //
 
+interface AutocompleteOption {
+    value: string;
+    label?: string;
+    disabled?: boolean;
+}
+
+type AutocompleteLoadOptionsFunction = LoadOptionsFunction<AutocompleteOption>;
+
 type AutocompleteFilterFunction = (value: string, items: AutocompleteItemEntry[]) => AutocompleteItemEntry[];
 
 interface AutocompleteActionsRef {
@@ -192,6 +210,15 @@ interface AutocompleteContextState {
     openOnInputClick: boolean;
     loopFocus: boolean;
 
+    inlineComplete: boolean;
+    /** Text shown in the input while a suggestion is completed inline; `value` keeps what was typed. */
+    inlineCompletion: string | null;
+    setInlineCompletion: (completion: string | null) => void;
+    /** Set after the user deletes text, so the completion they removed is not offered again. */
+    inlineSuppressedRef: RefObject<boolean>;
+    /** Commits the shown completion to `value`; returns whether there was one. */
+    acceptInlineCompletion: () => boolean;
+
     state: AutocompleteState;
     dispatch: Dispatch<AutocompleteStateAction>;
 
@@ -200,6 +227,15 @@ interface AutocompleteContextState {
     filter: AutocompleteFilterFunction | null;
     filteredItems: AutocompleteItemEntry[];
     filteredItemIds: Set<string>;
+    /** Text the list is currently filtered by; empty when nothing is being searched. */
+    query: string;
+    /** The built-in filter matched the items, so `AutocompleteItemHighlight` can mark what it matched. */
+    isDefaultFilter: boolean;
+
+    options: AutocompleteOption[] | null;
+    loadStatus: AsyncOptionsStatus;
+    loadError: unknown;
+    retryLoad: () => void;
 
     viewportRef: RefObject<HTMLDivElement | null>;
     triggerRef: RefObject<HTMLDivElement | null>;
@@ -225,12 +261,73 @@ function useAutocompleteContext(): AutocompleteContextState {
 
 // ---------------------------------------------------------------------------------------------------- //
 
-const defaultFilter: AutocompleteFilterFunction = (value, items) => {
-    if (!value) return items;
-    const lowerInput = value.toLowerCase();
-    return items.filter(item =>
-        item.textValue.toLowerCase().includes(lowerInput)
-    );
+// Ranked fuzzy matching: accents and case are ignored, every typed word must match, and matches at
+// the start of a word sort first.
+const defaultFilter: AutocompleteFilterFunction = (query, items) => fuzzyFilter(query, items, item => item.textValue);
+
+// Ranked results are kept together per container, best container first, so moving the items into
+// ranked order in the DOM keeps each group whole.
+function groupByContainer(items: AutocompleteItemEntry[]): AutocompleteItemEntry[] {
+    const containers = new Map<Element | null, AutocompleteItemEntry[]>();
+
+    for (const item of items) {
+        const container = item.element?.parentElement ?? null;
+        const entries = containers.get(container);
+
+        if (entries) entries.push(item);
+        else containers.set(container, [item]);
+    }
+
+    return [...containers.values()].flat();
+}
+
+// Puts items, and the groups holding them, in the DOM order of `items`, so reading order matches
+// navigation order. Nodes only trade places with each other, so labels and separators stay put.
+function arrangeItems(items: AutocompleteItemEntry[]) {
+    const ranks = new Map<Element, number>();
+
+    items.forEach((item, rank) => {
+        let node: Element | null = item.element;
+
+        while (node && !ranks.has(node)) {
+            ranks.set(node, rank);
+
+            const parent: Element | null = node.parentElement;
+            node = parent?.matches('[data-ui="autocomplete-group"]') ? parent : null;
+        }
+    });
+
+    const parents = new Set([...ranks.keys()].map(node => node.parentElement));
+
+    parents.forEach((parent) => {
+        if (!parent) return;
+
+        const slots = Array.from(parent.children).filter(child => ranks.has(child));
+        const sorted = [...slots].sort((a, b) => ranks.get(a)! - ranks.get(b)!);
+
+        sorted.forEach((node, index) => {
+            const current = slots[index];
+            if (current === node) return;
+
+            const placeholder = document.createComment('');
+            current.before(placeholder);
+            node.before(current);
+            placeholder.replaceWith(node);
+
+            slots[slots.indexOf(node)] = current;
+            slots[index] = node;
+        });
+    });
+}
+
+// The typed characters keep their case and the rest comes from the item; null when the item does not
+// start with the typed text.
+function getInlineCompletion(typed: string, itemText: string): string | null {
+    const foldedTyped = foldText(typed).text;
+    const foldedItem = foldText(itemText);
+
+    if (!foldedTyped || !foldedItem.text.startsWith(foldedTyped)) return null;
+    return typed + itemText.slice(foldedItem.indices[foldedTyped.length]);
 }
 
 // ---------------------------------------------------------------------------------------------------- //
@@ -248,10 +345,20 @@ interface AutocompleteProps {
     highlightItemOnHover?: boolean;
     openOnInputClick?: boolean;
     loopFocus?: boolean;
+    /**
+     * Complete the first matching item inside the input, with the added characters selected (`aria-autocomplete="both"`).
+     * Until Enter, ArrowRight, End or leaving the input accepts it, `value`, `onValueChange` and the form field
+     * hold only the typed text.
+     */
+    inlineComplete?: boolean;
     modal?: boolean;
 
     filter?: AutocompleteFilterFunction | null;
 
+    /** Fetch options for the typed query instead of filtering rendered items; results are cached per query. */
+    loadOptions?: AutocompleteLoadOptionsFunction;
+    loadDebounce?: number;
+
     name?: string;
     disabled?: boolean;
     required?: boolean;
@@ -265,11 +372,14 @@ function Autocomplete({
     defaultValue, onValueChange, value,
     defaultOpen, onOpenChange, open,
     autoHighlight = false,
+    inlineComplete = false,
     highlightItemOnHover = true,
     openOnInputClick = true,
     loopFocus = true,
     disabled = false,
     filter = defaultFilter,
+    loadOptions,
+    loadDebounce,
     actionsRef,
     children,
 }: AutocompleteProps) {
@@ -311,25 +421,52 @@ function Autocomplete({
     const [scrollTrigger, setScrollTrigger] = useState(0);
     const triggerScroll = useCallback(() => setScrollTrigger(prev => prev + 1), []);
 
+    const {
+        status: loadStatus,
+        options,
+        error: loadError,
+        retry: retryLoad,
+    } = useAsyncOptions({ query: valueState, loadOptions, enabled: openState, debounce: loadDebounce });
+
     const lastOpenFilteredItemsRef = useRef<AutocompleteItemEntry[]>([]);
 
     const filteredItems = useMemo(() => {
         if (!openState) return lastOpenFilteredItemsRef.current;
 
-        if (!filter) {
+        // Loaded options are already matched by the source.
+        if (!filter || loadOptions) {
             lastOpenFilteredItemsRef.current = state.items;
             return state.items;
         }
 
-        const result = filter(valueState, state.items);
+        const result = groupByContainer(filter(valueState, state.items));
         lastOpenFilteredItemsRef.current = result;
         return result;
-    }, [filter, valueState, state.items, openState]);
+    }, [filter, loadOptions, valueState, state.items, openState]);
 
     const filteredItemIds = useMemo(() => {
         return new Set(filteredItems.map(item => item.id));
     }, [filteredItems]);
 
+    const isDefaultFilter = filter === defaultFilter && !loadOptions;
+
+    // Ranked items are moved into place while searching, and back to registration order once it clears.
+    const isArrangedRef = useRef(false);
+
+    useLayoutEffect(() => {
+        if (!openState) return;
+
+        if (filteredItems !== state.items) {
+            arrangeItems([...filteredItems, ...state.items.filter(item => !filteredItemIds.has(item.id))]);
+            isArrangedRef.current = true;
+        }
+
+        else if (isArrangedRef.current) {
+            arrangeItems(state.items);
+            isArrangedRef.current = false;
+        }
+    }, [openState, filteredItems, filteredItemIds, state.items]);
+
     const activeDescendant = useMemo(() => {
         return state.cursor >= 0 && state.cursor < filteredItems.length
             ? filteredItems[state.cursor].id
@@ -402,6 +539,48 @@ function Autocomplete({
         dispatch({ type: 'SET_PENDING_CURSOR_ACTION', payload: null });
     }, [openState, filteredItems, state.pendingCursorAction, valueState, autoHighlight, triggerScroll]);
 
+    const [inlineCompletion, setInlineCompletion] = useState<string | null>(null);
+    const inlineSuppressedRef = useRef(false);
+
+    // Typing completes the first item that starts with the typed text. This runs after the highlight
+    // effects above so the completed item stays highlighted.
+    useEffect(() => {
+        if (!inlineComplete || !openState || !valueState || inlineSuppressedRef.current) {
+            setInlineCompletion(null);
+            return;
+        }
+
+        for (let index = 0; index < filteredItems.length; index++) {
+            const item = filteredItems[index];
+            const completion = item.disabled ? null : getInlineCompletion(valueState, item.textValue);
+
+            if (completion !== null) {
+                scrollRequestRef.current = { type: 'ensure-visible', targetIndex: index }
+                dispatch({ type: 'SET_CURSOR', payload: index });
+                setInlineCompletion(completion);
+                triggerScroll();
+                return;
+            }
+        }
+
+        setInlineCompletion(null);
+    }, [inlineComplete, openState, valueState, filteredItems, triggerScroll]);
+
+    const inlineCompletionRef = useRef(inlineCompletion);
+    inlineCompletionRef.current = inlineCompletion;
+
+    const acceptInlineCompletion = useCallback(() => {
+        const completion = inlineCompletionRef.current;
+        if (completion === null) return false;
+
+        // The accepted text is complete, so it is not offered again until the user types.
+        inlineSuppressedRef.current = true;
+        setInlineCompletion(null);
+        setValue(completion);
+
+        return true;
+    }, [setValue]);
+
     const prevOpenRef = useRef(openState);
 
     useEffect(() => {
@@ -409,9 +588,11 @@ function Autocomplete({
         prevOpenRef.current = openState;
 
         if (wasOpen && !openState) {
+            // Closing without Escape or a selection, e.g. on blur, accepts the completion.
+            acceptInlineCompletion();
             dispatch({ type: 'SET_CURSOR', payload: -1 });
         }
-    }, [openState]);
+    }, [openState, acceptInlineCompletion]);
 
     useImperativeHandle(actionsRef, () => ({
         setValue,
@@ -442,12 +623,23 @@ function Autocomplete({
         highlightItemOnHover,
         openOnInputClick,
         loopFocus,
+        inlineComplete,
+        inlineCompletion,
+        setInlineCompletion,
+        inlineSuppressedRef,
+        acceptInlineCompletion,
         state,
         dispatch,
         activeDescendant,
         filter,
         filteredItems,
         filteredItemIds,
+        query: valueState,
+        isDefaultFilter,
+        options,
+        loadStatus,
+        loadError,
+        retryLoad,
         triggerRef,
         inputRef,
         contentRef,
@@ -460,7 +652,9 @@ function Autocomplete({
         valueState, setValue,
         openState, setOpen,
         disabled, autoHighlight, highlightItemOnHover, openOnInputClick, loopFocus,
-        state, activeDescendant, filter, filteredItems, filteredItemIds,
+        inlineComplete, inlineCompletion, acceptInlineCompletion,
+        state, activeDescendant, filter, filteredItems, filteredItemIds, isDefaultFilter,
+        options, loadStatus, loadError, retryLoad,
         scrollTrigger, triggerScroll
     ]);
 
@@ -577,27 +771,57 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
         state, dispatch, scrollRequestRef, triggerScroll,
         filteredItems, openOnInputClick,
         triggerRef, contentRef,
+        inlineComplete, inlineCompletion, setInlineCompletion, inlineSuppressedRef, acceptInlineCompletion,
     } = useAutocompleteContext();
 
     useImperativeHandle(forwardedRef, () => inputRef.current!, [inputRef]);
 
+    // Deleting, including deleting just the selected completion, must not bring the completion back.
+    const trackInlineInput = useCallback((nativeEvent: Event) => {
+        const inputType = (nativeEvent as InputEvent).inputType ?? '';
+        inlineSuppressedRef.current = inputType.startsWith('delete');
+        setInlineCompletion(null);
+    }, [inlineSuppressedRef, setInlineCompletion]);
+
     const changeHandler = useCallback((event: ChangeEvent<HTMLInputElement>) => {
         const newValue = event.target.value;
+        trackInlineInput(event.nativeEvent);
         setValue(newValue);
 
         dispatch({ type: 'SET_CURSOR', payload: -1 });
 
         if (!open && newValue.length > 0) setOpen(true);
-    }, [open, setOpen, setValue, dispatch]);
+    }, [open, setOpen, setValue, dispatch, trackInlineInput]);
 
     const inputHandler = useCallback((event: React.FormEvent<HTMLInputElement>) => {
         const newValue = (event.target as HTMLInputElement).value;
+        trackInlineInput(event.nativeEvent);
         setValue(newValue);
 
         dispatch({ type: 'SET_CURSOR', payload: -1 });
 
         if (!open && newValue.length > 0) setOpen(true);
-    }, [open, setOpen, setValue, dispatch]);
+    }, [open, setOpen, setValue, dispatch, trackInlineInput]);
+
+    // The completed part is kept selected so the next keystroke replaces it.
+    useLayoutEffect(() => {
+        const input = inputRef.current;
+        if (!input || inlineCompletion === null || document.activeElement !== input) return;
+
+        const start = inlineCompletion.startsWith(value) ? value.length : 0;
+        input.setSelectionRange(start, inlineCompletion.length, 'backward');
+    }, [inlineCompletion, value, inputRef]);
+
+    // Moving through the list shows the highlighted item in the input, completed where it can be.
+    const syncInlineCompletion = useCallback((index: number) => {
+        if (!inlineComplete) return;
+
+        const item = filteredItems[index];
+        if (!item) return;
+
+        inlineSuppressedRef.current = false;
+        setInlineCompletion(getInlineCompletion(value, item.textValue) ?? item.textValue);
+    }, [inlineComplete, filteredItems, value, inlineSuppressedRef, setInlineCompletion]);
 
     const clickHandler = useCallback(() => {
         if (disabled) return;
@@ -634,6 +858,17 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
         if (disabled) return;
         if (event.key === ' ') return;
 
+        // ArrowRight and End accept the completion and move the caret behind it, like an address bar.
+        const isAcceptKey = event.key === 'ArrowRight' || event.key === 'End';
+
+        if (isAcceptKey && !event.shiftKey && !event.altKey && !event.ctrlKey && !event.metaKey && acceptInlineCompletion()) {
+            event.preventDefault();
+
+            const input = event.currentTarget;
+            input.setSelectionRange(input.value.length, input.value.length);
+            return;
+        }
+
         const action = getAutocompleteAction(event, open);
 
         if (action !== AutocompleteActions.None && event.key !== 'Tab') event.preventDefault();
@@ -659,6 +894,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
                     if (firstEnabled >= 0) {
                         scrollRequestRef.current = { type: 'edge-start', targetIndex: firstEnabled }
                         dispatch({ type: 'SET_CURSOR', payload: firstEnabled });
+                        syncInlineCompletion(firstEnabled);
                         triggerScroll();
                     }
                 }
@@ -678,6 +914,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
                     if (lastEnabled >= 0) {
                         scrollRequestRef.current = { type: 'edge-end', targetIndex: lastEnabled }
                         dispatch({ type: 'SET_CURSOR', payload: lastEnabled });
+                        syncInlineCompletion(lastEnabled);
                         triggerScroll();
                     }
                 }
@@ -692,6 +929,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
                     const scrollType = nextIndex === 0 ? 'edge-start' : 'ensure-visible';
                     scrollRequestRef.current = { type: scrollType, targetIndex: nextIndex }
                     dispatch({ type: 'SET_CURSOR', payload: nextIndex });
+                    syncInlineCompletion(nextIndex);
                     triggerScroll();
                 }
 
@@ -706,6 +944,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
                     const scrollType = isLast ? 'edge-end' : 'ensure-visible';
                     scrollRequestRef.current = { type: scrollType, targetIndex: nextIndex }
                     dispatch({ type: 'SET_CURSOR', payload: nextIndex });
+                    syncInlineCompletion(nextIndex);
                     triggerScroll();
                 }
 
@@ -722,6 +961,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
                     const scrollType = target === 0 ? 'edge-start' : 'ensure-visible';
                     scrollRequestRef.current = { type: scrollType, targetIndex: target }
                     dispatch({ type: 'SET_CURSOR', payload: target });
+                    syncInlineCompletion(target);
                     triggerScroll();
                 }
 
@@ -739,6 +979,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
                     const scrollType = isLast ? 'edge-end' : 'ensure-visible';
                     scrollRequestRef.current = { type: scrollType, targetIndex: target }
                     dispatch({ type: 'SET_CURSOR', payload: target });
+                    syncInlineCompletion(target);
                     triggerScroll();
                 }
 
@@ -751,6 +992,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
 
                     if (!item.disabled) {
                         setValue(item.textValue);
+                        setInlineCompletion(null);
                         if (open) {
                             setOpen(false);
                             // Handle focus for input in content
@@ -781,6 +1023,9 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
                     }
                 }
 
+                // Nothing is highlighted, but the input shows a completion: Enter accepts it.
+                else if (event.key === 'Enter' && open && acceptInlineCompletion()) setOpen(false);
+
                 else if (event.key === 'Tab' && open) {
                     setOpen(false);
 
@@ -813,6 +1058,8 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
 
             case AutocompleteActions.Close:
                 if (open) {
+                    // Escape drops the completion and keeps what was typed.
+                    setInlineCompletion(null);
                     setOpen(false);
                     dispatch({ type: 'SET_CURSOR', payload: -1 });
                     // Return focus to trigger if input is in content
@@ -831,7 +1078,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
     }, [
         disabled, open, loopFocus, state.cursor, filteredItems,
         dispatch, setOpen, scrollRequestRef, triggerScroll, setValue,
-        triggerRef, inputRef, value
+        triggerRef, inputRef, value, syncInlineCompletion, setInlineCompletion, acceptInlineCompletion
     ]);
 
     const Component = asChild ? Slot : 'input';
@@ -841,7 +1088,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
             data-ui="autocomplete-input"
 
             aria-activedescendant={activeDescendant || undefined}
-            aria-autocomplete="list"
+            aria-autocomplete={inlineComplete ? 'both' : 'list'}
             aria-controls={listboxId}
             aria-expanded={open}
             aria-haspopup="listbox"
@@ -852,7 +1099,7 @@ const AutocompleteInput = forwardRef<HTMLInputElement, AutocompleteInputProps>(f
             ref={inputRef}
             type="text"
 
-            value={value}
+            value={inlineCompletion ?? value}
             onInput={inputHandler}
             onChange={changeHandler}
             onClick={clickHandler}
@@ -935,16 +1182,18 @@ interface AutocompleteContentProps extends HTMLAttributes<HTMLElement> {
     align?: Align;
     side?: Side;
 
-    alignOffset?: number;
-    sideOffset?: number;
+    alignOffset?: number | OffsetFunction;
+    sideOffset?: number | OffsetFunction;
 
-    sticky?: Sticky;
+    sticky?: boolean;
 
-    collisionBoundary?: Boundary;
+    collisionBoundary?: CollisionBoundary;
     collisionPadding?: Padding;
-    avoidCollisions?: boolean;
+    collisionAvoidance?: CollisionAvoidance;
 
-    hideWhenDetached?: boolean;
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
     forceMount?: boolean;
 }
 
@@ -961,13 +1210,14 @@ function AutocompleteContent({
     alignOffset = 0,
     sideOffset = 4,
 
-    sticky = "partial",
-
-    avoidCollisions = true,
-    collisionBoundary = [],
+    sticky = false,
+    collisionAvoidance,
+    collisionBoundary = "clipping-ancestors",
     collisionPadding = 8,
 
-    hideWhenDetached = false,
+    hideWhenDetached = "none",
+    onAnchorHiddenChange,
+    onEscapedChange,
     forceMount = false,
 
     className,
@@ -975,7 +1225,7 @@ function AutocompleteContent({
 
     ...props
 }: AutocompleteContentProps) {
-    const { open, setOpen, triggerRef, inputRef, contentRef, viewportRef, scrollRequestRef, scrollTrigger, filteredItems, dispatch, listboxId } = useAutocompleteContext();
+    const { open, setOpen, triggerRef, inputRef, contentRef, viewportRef, scrollRequestRef, scrollTrigger, filteredItems, dispatch, listboxId, loadStatus, setInlineCompletion } = useAutocompleteContext();
 
     const [hasCollected, setHasCollected] = useState(false);
     const isCollectionPass = !hasCollected && !open;
@@ -990,6 +1240,8 @@ function AutocompleteContent({
         maxHeight,
         isPositioned,
         isReferenceHidden,
+        isEscaped,
+        isHidden,
         updatePosition,
     } = usePosition({
         relativeTo: triggerRef,
@@ -999,11 +1251,14 @@ function AutocompleteContent({
         align,
         sideOffset,
         alignOffset,
-        avoidCollisions,
+        collisionAvoidance,
         collisionBoundary,
         collisionPadding,
         sticky,
         hideWhenDetached,
+        onAnchorHiddenChange,
+        onEscapedChange,
+        onClose: () => setOpen(false),
     });
 
     useLayoutEffect(() => {
@@ -1150,6 +1405,7 @@ function AutocompleteContent({
         const keyDownHandler = (event: globalThis.KeyboardEvent) => {
             if (event.key === "Escape" && document.activeElement !== inputRef.current) {
                 onEscapeKeyDown?.(event as unknown as React.KeyboardEvent);
+                setInlineCompletion(null);
                 setOpen(false);
                 dispatch({ type: 'SET_CURSOR', payload: -1 });
                 dispatch({ type: 'SET_PENDING_CURSOR_ACTION', payload: null });
@@ -1159,7 +1415,7 @@ function AutocompleteContent({
 
         document.addEventListener("keydown", keyDownHandler);
         return () => { document.removeEventListener("keydown", keyDownHandler); }
-    }, [open, onEscapeKeyDown, setOpen, dispatch, inputRef]);
+    }, [open, onEscapeKeyDown, setOpen, setInlineCompletion, dispatch, inputRef]);
 
     if (!isMounted && !forceMount && !isCollectionPass) return null;
 
@@ -1170,8 +1426,11 @@ function AutocompleteContent({
             data-ui="autocomplete-content"
             data-state={open ? "open" : "closed"}
             data-side={actualSide}
+            data-anchor-hidden={isReferenceHidden ? "" : undefined}
+            data-escaped={isEscaped ? "" : undefined}
 
             role="listbox"
+            aria-busy={loadStatus === 'loading' || undefined}
             id={listboxId}
             aria-label="Suggestions"
 
@@ -1188,7 +1447,7 @@ function AutocompleteContent({
                 maxHeight: isCollectionPass ? undefined : (maxHeight ? `${maxHeight}px` : undefined),
                 display: 'flex',
                 flexDirection: 'column',
-                visibility: isCollectionPass ? 'hidden' : (isPositioned && !isReferenceHidden ? "visible" : "hidden"),
+                visibility: isCollectionPass ? 'hidden' : (isPositioned && !isHidden ? "visible" : "hidden"),
                 pointerEvents: isCollectionPass ? 'none' : 'auto',
                 opacity: isCollectionPass ? 0 : undefined,
             }}
@@ -1218,6 +1477,19 @@ interface AutocompleteViewportProps extends HTMLAttributes<HTMLElement> {
     asChild?: boolean;
 }
 
+// Renders the options returned by `loadOptions` when the viewport is given no children.
+function AutocompleteOptionList() {
+    const { options } = useAutocompleteContext();
+    if (!options) return null;
+
+    return options.map(option => (
+        <AutocompleteItem key={option.value} value={option.value} textValue={option.label ?? option.value} disabled={option.disabled}>
+            <AutocompleteItemHighlight>{option.label ?? option.value}</AutocompleteItemHighlight>
+            <AutocompleteItemIndicator />
+        </AutocompleteItem>
+    ));
+}
+
 function AutocompleteViewport({ children, className, asChild, ...props }: AutocompleteViewportProps) {
     const { viewportRef } = useAutocompleteContext();
 
@@ -1237,7 +1509,7 @@ function AutocompleteViewport({ children, className, asChild, ...props }: Autoco
 
             {...props}
         >
-            {children}
+            {children ?? <AutocompleteOptionList />}
         </Component>
     );
 }
@@ -1249,9 +1521,12 @@ interface AutocompleteEmptyProps extends HTMLAttributes<HTMLElement> {
 }
 
 function AutocompleteEmpty({ children, className, asChild, ...props }: AutocompleteEmptyProps) {
-    const { filteredItems, open } = useAutocompleteContext();
+    const { filteredItems, open, options, loadStatus } = useAutocompleteContext();
     if (!open || filteredItems.length > 0) return null;
 
+    // With a remote source, nothing is empty until a response says so.
+    if (loadStatus === 'loading' || loadStatus === 'error' || (loadStatus === 'idle' && options === null)) return null;
+
     const Component = asChild ? Slot : 'div';
 
     return (
@@ -1275,8 +1550,95 @@ function AutocompleteEmpty({ children, className, asChild, ...props }: Autocompl
 
 // ---------------------------------------------------------------------------------------------------- //
 
+interface AutocompleteLoadingProps extends HTMLAttributes<HTMLElement> {
+    asChild?: boolean;
+}
+
+function AutocompleteLoading({ children, className, asChild, ...props }: AutocompleteLoadingProps) {
+    const { open, loadStatus } = useAutocompleteContext();
+    if (!open || loadStatus !== 'loading') return null;
+
+    const Component = asChild ? Slot : 'div';
+
+    return (
+        <Component
+            data-ui="autocomplete-loading"
+
+            role="status"
+            aria-live="polite"
+
+            className={cn(
+                'flex items-center justify-start w-full text-sm text-muted-write px-2 py-1.5 rounded',
+                className
+            )}
+
+            {...props}
+        >
+            {children ?? 'Loading...'}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface AutocompleteErrorProps extends Omit<HTMLAttributes<HTMLElement>, 'children'> {
+    /** Content shown when `loadOptions` rejects; a function receives the rejection reason and a retry callback. */
+    children?: ReactNode | ((error: unknown, retry: () => void) => ReactNode);
+    asChild?: boolean;
+}
+
+function AutocompleteError({ children, className, asChild, ...props }: AutocompleteErrorProps) {
+    const { open, loadStatus, loadError, retryLoad, inputRef } = useAutocompleteContext();
+
+    const retryHandler = useCallback(() => {
+        retryLoad();
+        inputRef.current?.focus();
+    }, [retryLoad, inputRef]);
+
+    if (!open || loadStatus !== 'error') return null;
+
+    const Component = asChild ? Slot : 'div';
+
+    return (
+        <Component
+            data-ui="autocomplete-error"
+
+            role="alert"
+
+            className={cn(
+                'flex items-center justify-between gap-2 w-full text-sm text-muted-write px-2 py-1.5 rounded',
+                className
+            )}
+
+            {...props}
+        >
+            {typeof children === 'function' ? children(loadError, retryLoad) : children ?? (
+                <>
+                    Failed to load options.
+                    <button
+                        data-ui="autocomplete-retry"
+
+                        type="button"
+                        tabIndex={-1}
+
+                        onMouseDown={event => event.preventDefault()}
+                        onClick={retryHandler}
+
+                        className="text-write underline underline-offset-2"
+                    >
+                        Retry
+                    </button>
+                </>
+            )}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
 interface AutocompleteItemContextState {
     textElementRef: RefObject<HTMLElement | null>;
+    textValue: string;
     selected: boolean;
 }
 
@@ -1303,6 +1665,7 @@ function AutocompleteItem({ children, className, value, disabled, textValue, asC
         value: currentValue,
         state, dispatch,
         highlightItemOnHover, filteredItems, filteredItemIds,
+        setInlineCompletion,
     } = useAutocompleteContext();
 
     const ref = useRef<HTMLDivElement>(null);
@@ -1316,7 +1679,7 @@ function AutocompleteItem({ children, className, value, disabled, textValue, asC
     const itemIndex = filteredItems.findIndex(item => item.id === itemId);
     const highlighted = itemIndex >= 0 && state.cursor === itemIndex;
 
-    const context: AutocompleteItemContextState = { textElementRef, selected }
+    const context: AutocompleteItemContextState = { textElementRef, textValue: textValue ?? value ?? '', selected }
 
     const getResolvedTextValue = useCallback(() => {
         return textValue ??
@@ -1353,8 +1716,9 @@ function AutocompleteItem({ children, className, value, disabled, textValue, asC
             value;
 
         setValue(resolvedTextValue);
+        setInlineCompletion(null);
         setOpen(false);
-    }, [disabled, value, setValue, setOpen, textValue]);
+    }, [disabled, value, setValue, setOpen, setInlineCompletion, textValue]);
 
     const mouseEnterHandler = useCallback(() => {
         if (disabled || !highlightItemOnHover) return;
@@ -1444,6 +1808,62 @@ function AutocompleteItemText({ className, children, asChild, ...props }: Autoco
 
 // ---------------------------------------------------------------------------------------------------- //
 
+interface AutocompleteItemHighlightProps extends HTMLAttributes<HTMLElement> {
+    /** Text to mark up; defaults to the item's text value. */
+    children?: string;
+    asChild?: boolean;
+}
+
+/**
+ * Item text with the characters matching the current value wrapped in `<mark>`. Use it in place of
+ * `AutocompleteItemText`. Nothing is marked with a custom `filter` or `loadOptions`, which may match differently.
+ */
+function AutocompleteItemHighlight({ className, children, asChild, ...props }: AutocompleteItemHighlightProps) {
+    const { query, isDefaultFilter } = useAutocompleteContext();
+    const { textElementRef, textValue } = useAutocompleteItemContext();
+
+    const text = children ?? textValue;
+    const ranges = useMemo(() => isDefaultFilter ? fuzzyMatch(query, text)?.ranges ?? [] : [], [isDefaultFilter, query, text]);
+
+    const segments: ReactNode[] = [];
+    let position = 0;
+
+    for (const [start, end] of ranges) {
+        if (start > position) segments.push(text.slice(position, start));
+
+        segments.push(
+            <mark key={start} data-ui="autocomplete-item-highlight-mark" className="bg-transparent text-write font-semibold">
+                {text.slice(start, end)}
+            </mark>
+        );
+
+        position = end;
+    }
+
+    if (position < text.length) segments.push(text.slice(position));
+
+    const Component = asChild ? Slot : 'span';
+
+    return (
+        <Component
+            data-ui="autocomplete-item-highlight"
+
+            ref={textElementRef}
+
+            className={cn(
+                'flex-1 truncate',
+                className
+            )}
+
+            {...props}
+        >
+            {segments}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
 interface AutocompleteItemIndicatorProps extends HTMLAttributes<HTMLElement> {
     asChild?: boolean;
 }
@@ -1607,6 +2027,8 @@ interface AutocompleteSeparatorProps extends HTMLAttributes<HTMLElement> {
 }
 
 function AutocompleteSeparator({ className, children, asChild, ...props }: AutocompleteSeparatorProps) {
+    const { query } = useAutocompleteContext();
+
     const Component = asChild ? Slot : 'span';
 
     return (
@@ -1620,6 +2042,8 @@ function AutocompleteSeparator({ className, children, asChild, ...props }: Autoc
                 'block h-px my-1 -mx-1 bg-muted-bound',
                 'has-[+_[data-hidden]]:hidden',
                 '[[data-hidden]+&]:hidden',
+                // Ranked results no longer follow the sections the separators divide.
+                query && 'hidden',
                 className
             )}
 
@@ -1821,8 +2245,11 @@ export {
     AutocompleteContent,
     AutocompleteViewport,
     AutocompleteEmpty,
+    AutocompleteLoading,
+    AutocompleteError,
     AutocompleteItem,
     AutocompleteItemText,
+    AutocompleteItemHighlight,
     AutocompleteItemIndicator,
     AutocompleteGroup,
     AutocompleteLabel,
@@ -1837,14 +2264,19 @@ export {
     type AutocompleteContentProps,
     type AutocompleteViewportProps,
     type AutocompleteEmptyProps,
+    type AutocompleteLoadingProps,
+    type AutocompleteErrorProps,
     type AutocompleteItemProps,
     type AutocompleteItemTextProps,
+    type AutocompleteItemHighlightProps,
     type AutocompleteItemIndicatorProps,
     type AutocompleteGroupProps,
     type AutocompleteLabelProps,
     type AutocompleteSeparatorProps,
     type AutocompleteScrollUpButtonProps,
     type AutocompleteScrollDownButtonProps,
+    type AutocompleteOption,
+    type AutocompleteLoadOptionsFunction,
 }
 
 // ---------------------------------------------------------------------------------------------------- //
@@ -26,13 +26,25 @@ import { useControllableState } from "@/hooks/use-controllable-state";
 
 import {
     usePosition,
-    type Boundary,
-    type Padding,
-    type Sticky,
     type Align,
+    type CollisionAvoidance,
+    type CollisionBoundary,
+    type HideWhenDetached,
+    type OffsetFunction,
+    type Padding,
     type Side,
 } from "@/hooks/use-position";
 
+import { useItemAlignedPosition } from "@/hooks/use-item-aligned-position";
+
+import {
+    useAsyncOptions,
+    type AsyncOptionsStatus,
+    type LoadOptionsFunction,
+} from "@/hooks/use-async-options";
+
+import { foldText, fuzzyFilter, fuzzyMatch } from "@/fuzzy-match";
+
 import { Slot } from "@/ui/slot";
 import { cn } from "@/cn";
 
@@ -173,6 +185,14 @@ function findEdgeEnabledIndex(items: ComboboxItemEntry[], edge: 'first' | 'last'
 
 // ---------------------------------------------------------------------------------------------------- //
 
+interface ComboboxOption {
+    value: string;
+    label: string;
+    disabled?: boolean;
+}
+
+type ComboboxLoadOptionsFunction = LoadOptionsFunction<ComboboxOption>;
+
 type ComboboxFilterFunction = (inputValue: string, items: ComboboxItemEntry[]) => ComboboxItemEntry[];
 
 interface ComboboxActionsRef {
@@ -214,6 +234,23 @@ interface ComboboxContextState {
     filter: ComboboxFilterFunction | null;
     filteredItems: ComboboxItemEntry[];
     filteredItemIds: Set<string>;
+    /** Text the list is currently filtered by; empty when nothing is being searched. */
+    query: string;
+    /** The built-in filter matched the items, so `ComboboxItemHighlight` can mark what it matched. */
+    isDefaultFilter: boolean;
+
+    /** `onCreate` is set and the typed text matches no item exactly. */
+    canCreate: boolean;
+    creatable: boolean;
+    isCreating: boolean;
+    createError: string | null;
+    setCreateError: (error: string | null) => void;
+    createFromText: (text: string, remainder?: string) => void;
+
+    options: ComboboxOption[] | null;
+    loadStatus: AsyncOptionsStatus;
+    loadError: unknown;
+    retryLoad: () => void;
 
     itemLabelsRef: RefObject<Map<string, string>>;
     itemLabels: Map<string, string>;
@@ -234,6 +271,20 @@ interface ComboboxContextState {
 
     closeReasonRef: RefObject<'escape' | 'blur'>;
     inputModifiedFlagRef: RefObject<boolean>;
+
+    maxSelected: number | undefined;
+    isAtLimit: boolean;
+
+    /** Value of the chip that has keyboard focus; chips are navigated like a tag input. */
+    activeChip: string | null;
+    setActiveChip: (value: string | null) => void;
+    /** Focuses the chip for `value`, or the input for `null`. */
+    focusChip: (value: string | null) => void;
+    chipElementsRef: RefObject<Map<string, HTMLElement>>;
+    /** Values of chips rendered as disabled; kept while a chip is collapsed out of view. */
+    disabledChipsRef: RefObject<Set<string>>;
+    dragChipRef: RefObject<string | null>;
+    moveValue: (itemValue: string, toIndex: number) => void;
 }
 
 const ComboboxContext = createContext<ComboboxContextState | null>(null);
@@ -246,14 +297,73 @@ function useComboboxContext(): ComboboxContextState {
 
 // ---------------------------------------------------------------------------------------------------- //
 
-const defaultFilter: ComboboxFilterFunction = (inputValue, items) => {
-    if (!inputValue) return items;
-    const lowerInput = inputValue.toLowerCase();
-    return items.filter(item =>
-        item.textValue.toLowerCase().includes(lowerInput)
-    );
+// Ranked fuzzy matching: accents and case are ignored, every typed word must match, and matches at
+// the start of a word sort first.
+const defaultFilter: ComboboxFilterFunction = (query, items) => fuzzyFilter(query, items, item => item.textValue);
+
+// Ranked results are kept together per container, best container first, so moving the items into
+// ranked order in the DOM keeps each group whole.
+function groupByContainer(items: ComboboxItemEntry[]): ComboboxItemEntry[] {
+    const containers = new Map<Element | null, ComboboxItemEntry[]>();
+
+    for (const item of items) {
+        const container = item.element?.parentElement ?? null;
+        const entries = containers.get(container);
+
+        if (entries) entries.push(item);
+        else containers.set(container, [item]);
+    }
+
+    return [...containers.values()].flat();
 }
 
+// Puts items, and the groups holding them, in the DOM order of `items`, so reading order matches
+// navigation order. Nodes only trade places with each other, so labels and separators stay put.
+function arrangeItems(items: ComboboxItemEntry[]) {
+    const ranks = new Map<Element, number>();
+
+    items.forEach((item, rank) => {
+        let node: Element | null = item.element;
+
+        while (node && !ranks.has(node)) {
+            ranks.set(node, rank);
+
+            const parent: Element | null = node.parentElement;
+            node = parent?.matches('[data-ui="combobox-group"]') ? parent : null;
+        }
+    });
+
+    const parents = new Set([...ranks.keys()].map(node => node.parentElement));
+
+    parents.forEach((parent) => {
+        if (!parent) return;
+
+        const slots = Array.from(parent.children).filter(child => ranks.has(child));
+        const sorted = [...slots].sort((a, b) => ranks.get(a)! - ranks.get(b)!);
+
+        sorted.forEach((node, index) => {
+            const current = slots[index];
+            if (current === node) return;
+
+            const placeholder = document.createComment('');
+            current.before(placeholder);
+            node.before(current);
+            placeholder.replaceWith(node);
+
+            slots[slots.indexOf(node)] = current;
+            slots[index] = node;
+        });
+    });
+}
+
+// Exact, case and accent insensitive label match; typed text that has one selects it instead of creating.
+function findExactItem(items: ComboboxItemEntry[], text: string): ComboboxItemEntry | undefined {
+    const folded = foldText(text.trim()).text;
+    return items.find(item => foldText(item.textValue.trim()).text === folded);
+}
+
+const CREATE_SEPARATOR = /[,\n]/;
+
 // ---------------------------------------------------------------------------------------------------- //
 
 interface ComboboxProps {
@@ -277,8 +387,22 @@ interface ComboboxProps {
     multiple?: boolean;
     allowCustomValue?: boolean;
 
+    /**
+     * Create an item from typed text that matches none. Resolve to the new value, or to nothing to use
+     * the text itself; reject to show the reason as a validation message. In `multiple` mode comma or
+     * line separated text, typed or pasted, creates one value per entry.
+     */
+    onCreate?: (inputValue: string) => string | void | Promise<string | void>;
+
+    /** Most values that can be selected in `multiple` mode. */
+    maxSelected?: number;
+
     filter?: ComboboxFilterFunction | null;
 
+    /** Fetch options for the typed query instead of filtering rendered items; results are cached per query. */
+    loadOptions?: ComboboxLoadOptionsFunction;
+    loadDebounce?: number;
+
     name?: string;
     disabled?: boolean;
     required?: boolean;
@@ -303,7 +427,11 @@ function Combobox({
     multiple = false,
     disabled = false,
     allowCustomValue = false,
+    onCreate,
+    maxSelected,
     filter = defaultFilter,
+    loadOptions,
+    loadDebounce,
     actionsRef,
     children,
 }: ComboboxProps) {
@@ -354,12 +482,23 @@ function Combobox({
     const [scrollTrigger, setScrollTrigger] = useState(0);
     const triggerScroll = useCallback(() => setScrollTrigger(prev => prev + 1), []);
 
+    // The selected label in the input is not a search, so an untouched single combobox queries everything.
+    const query = multiple || inputModifiedFlagRef.current ? inputValueState : '';
+
+    const {
+        status: loadStatus,
+        options,
+        error: loadError,
+        retry: retryLoad,
+    } = useAsyncOptions({ query, loadOptions, enabled: openState, debounce: loadDebounce });
+
     const lastOpenFilteredItemsRef = useRef<ComboboxItemEntry[]>([]);
 
     const filteredItems = useMemo(() => {
         if (!openState) return lastOpenFilteredItemsRef.current;
 
-        if (!filter) {
+        // Loaded options are already matched by the source.
+        if (!filter || loadOptions) {
             lastOpenFilteredItemsRef.current = state.items;
             return state.items;
         }
@@ -369,30 +508,84 @@ function Combobox({
             return state.items;
         }
 
-        const result = filter(inputValueState, state.items);
+        const result = groupByContainer(filter(inputValueState, state.items));
         lastOpenFilteredItemsRef.current = result;
         return result;
-    }, [filter, inputValueState, state.items, multiple, openState]);
+    }, [filter, loadOptions, inputValueState, state.items, multiple, openState]);
 
     const filteredItemIds = useMemo(() => {
         return new Set(filteredItems.map(item => item.id));
     }, [filteredItems]);
 
+    const isDefaultFilter = filter === defaultFilter && !loadOptions;
+
+    // Ranked items are moved into place while searching, and back to registration order once it clears.
+    const isArrangedRef = useRef(false);
+
+    useLayoutEffect(() => {
+        if (!openState) return;
+
+        if (filteredItems !== state.items) {
+            arrangeItems([...filteredItems, ...state.items.filter(item => !filteredItemIds.has(item.id))]);
+            isArrangedRef.current = true;
+        }
+
+        else if (isArrangedRef.current) {
+            arrangeItems(state.items);
+            isArrangedRef.current = false;
+        }
+    }, [openState, filteredItems, filteredItemIds, state.items]);
+
     const activeDescendant = useMemo(() => {
         return state.cursor >= 0 && state.cursor < filteredItems.length
             ? filteredItems[state.cursor].id
             : null;
     }, [state.cursor, filteredItems]);
 
+    const selectedCount = multiple && Array.isArray(valueState) ? valueState.length : 0;
+    const isAtLimit = maxSelected !== undefined && selectedCount >= maxSelected;
+
     const toggleValue = useCallback((itemValue: string) => {
         if (multiple) {
             const currentArray = Array.isArray(valueState) ? valueState : [];
-            const newValue = currentArray.includes(itemValue)
+            const isSelected = currentArray.includes(itemValue);
+            if (!isSelected && maxSelected !== undefined && currentArray.length >= maxSelected) return;
+
+            const newValue = isSelected
                 ? currentArray.filter(v => v !== itemValue)
                 : [...currentArray, itemValue];
             setValue(newValue);
         } else setValue(itemValue);
-    }, [multiple, valueState, setValue]);
+    }, [multiple, maxSelected, valueState, setValue]);
+
+    const moveValue = useCallback((itemValue: string, toIndex: number) => {
+        const currentArray = Array.isArray(valueState) ? valueState : [];
+        const fromIndex = currentArray.indexOf(itemValue);
+        if (fromIndex < 0 || toIndex < 0 || toIndex >= currentArray.length || toIndex === fromIndex) return;
+
+        const newValue = currentArray.filter(v => v !== itemValue);
+        newValue.splice(toIndex, 0, itemValue);
+        setValue(newValue);
+    }, [valueState, setValue]);
+
+    const [activeChip, setActiveChip] = useState<string | null>(null);
+    const chipElementsRef = useRef<Map<string, HTMLElement>>(new Map());
+    const disabledChipsRef = useRef<Set<string>>(new Set());
+    const dragChipRef = useRef<string | null>(null);
+
+    // A chip collapsed out of view mounts once the set expands, and the layout effect below focuses it.
+    const focusChip = useCallback((chipValue: string | null) => {
+        setActiveChip(chipValue);
+        if (chipValue === null) (inputRef.current ?? triggerRef.current)?.focus();
+    }, []);
+
+    // Chips can be hidden by overflow collapse or moved by reordering, so focus follows after render.
+    useLayoutEffect(() => {
+        if (activeChip === null) return;
+
+        const element = chipElementsRef.current.get(activeChip);
+        if (element && document.activeElement !== element) element.focus();
+    }, [activeChip, valueState]);
 
     const itemLabelsRef = useRef<Map<string, string>>(new Map());
     const [itemLabels, setItemLabels] = useState<Map<string, string>>(() => new Map());
@@ -412,6 +605,89 @@ function Combobox({
         }
     }, []);
 
+    const [isCreating, setIsCreating] = useState(false);
+    const [createError, setCreateError] = useState<string | null>(null);
+
+    // Set synchronously so a second Enter or click before the next render cannot call `onCreate` twice.
+    const isCreatingRef = useRef(false);
+
+    // Labels waiting for `onCreate`; entries finished while a batch is running join the end of it.
+    const pendingLabelsRef = useRef<string[]>([]);
+
+    const onCreateRef = useRef(onCreate);
+    onCreateRef.current = onCreate;
+
+    const latestRef = useRef({ value: valueState, inputValue: inputValueState, items: state.items });
+    latestRef.current = { value: valueState, inputValue: inputValueState, items: state.items };
+
+    const canCreate = !!onCreate && !isAtLimit && !!query.trim() && !findExactItem(state.items, query);
+
+    const createFromText = useCallback((text: string, remainder: string = '') => {
+        const create = onCreateRef.current;
+        const labels = (multiple ? text.split(CREATE_SEPARATOR) : [text]).map(label => label.trim()).filter(Boolean);
+        if (!create || !labels.length) return;
+        if (isCreatingRef.current && !multiple) return;
+
+        // The consumed text leaves the input right away so typing can continue while items are created.
+        if (multiple) setInputValue(remainder);
+
+        pendingLabelsRef.current.push(...labels);
+        if (isCreatingRef.current) return;
+
+        isCreatingRef.current = true;
+        setIsCreating(true);
+        setCreateError(null);
+
+        const created: string[] = [];
+        const failed: string[] = [];
+        let error: string | null = null;
+
+        // One at a time, so the new values keep the order they were typed in.
+        const createNext = (): Promise<void> => {
+            const label = pendingLabelsRef.current.shift();
+            if (label === undefined) return Promise.resolve();
+
+            const existing = findExactItem(latestRef.current.items, label);
+
+            if (existing) {
+                created.push(existing.value);
+                return createNext();
+            }
+
+            return Promise.resolve().then(() => create(label)).then((result) => {
+                const createdValue = typeof result === 'string' ? result : label;
+                registerItemLabel(createdValue, label);
+                created.push(createdValue);
+            }, (reason) => {
+                failed.push(label);
+                if (error === null) error = reason instanceof Error ? reason.message : String(reason);
+            }).then(createNext);
+        }
+
+        createNext().then(() => {
+            isCreatingRef.current = false;
+            setIsCreating(false);
+            setCreateError(error);
+
+            if (multiple) {
+                const current = Array.isArray(latestRef.current.value) ? latestRef.current.value : [];
+                const added = created.filter(item => !current.includes(item));
+                const room = maxSelected === undefined ? added.length : Math.max(0, maxSelected - current.length);
+                if (added.length) setValue([...current, ...added.slice(0, room)]);
+
+                // Rejected entries go back into the input next to the message explaining why.
+                if (failed.length) setInputValue([...failed, latestRef.current.inputValue].filter(Boolean).join(', '));
+            }
+
+            else if (created.length) {
+                setValue(created[0]);
+                setInputValue(labels[0]);
+                inputModifiedFlagRef.current = false;
+                setOpen(false);
+            }
+        });
+    }, [multiple, maxSelected, setValue, setInputValue, setOpen, registerItemLabel]);
+
     const hasInitializedInputRef = useRef(false);
 
     useEffect(() => {
@@ -591,6 +867,18 @@ function Combobox({
         filter,
         filteredItems,
         filteredItemIds,
+        query,
+        isDefaultFilter,
+        canCreate,
+        creatable: !!onCreate && !isAtLimit,
+        isCreating,
+        createError,
+        setCreateError,
+        createFromText,
+        options,
+        loadStatus,
+        loadError,
+        retryLoad,
         itemLabelsRef,
         itemLabels,
         registerItemLabel,
@@ -603,6 +891,15 @@ function Combobox({
         triggerScroll,
         closeReasonRef,
         inputModifiedFlagRef,
+        maxSelected,
+        isAtLimit,
+        activeChip,
+        setActiveChip,
+        focusChip,
+        chipElementsRef,
+        disabledChipsRef,
+        dragChipRef,
+        moveValue,
     }), [
         instanceId, listboxId,
         valueState, setValue, toggleValue,
@@ -610,6 +907,9 @@ function Combobox({
         openState, setOpen,
         disabled, multiple, autoHighlight, highlightItemOnHover, openOnInputClick, loopFocus, allowCustomValue,
         state, activeDescendant, filter, filteredItems, filteredItemIds, itemLabels, registerItemLabel,
+        query, isDefaultFilter, options, loadStatus, loadError, retryLoad,
+        canCreate, onCreate, isCreating, createError, createFromText,
+        maxSelected, isAtLimit, activeChip, focusChip, moveValue,
         scrollTrigger, triggerScroll
     ]);
 
@@ -731,21 +1031,37 @@ const ComboboxInput = forwardRef<HTMLInputElement, ComboboxInputProps>(function
         filteredItems, openOnInputClick, itemLabels, itemLabelsRef,
         triggerRef, contentRef, closeReasonRef,
         inputModifiedFlagRef, allowCustomValue,
+        canCreate, creatable, createError, setCreateError, createFromText,
+        maxSelected, focusChip, disabledChipsRef,
     } = useComboboxContext();
 
     useImperativeHandle(forwardedRef, () => inputRef.current!, [inputRef]);
 
+    // In creatable multiple mode a typed comma finishes an entry; the text after it stays in the input.
+    const updateInputValue = useCallback((newValue: string) => {
+        setCreateError(null);
+
+        if (multiple && creatable && CREATE_SEPARATOR.test(newValue)) {
+            const entries = newValue.split(CREATE_SEPARATOR);
+            const remainder = entries.pop() ?? '';
+            createFromText(entries.join(','), remainder);
+        }
+
+        else setInputValue(newValue);
+    }, [multiple, creatable, setInputValue, setCreateError, createFromText]);
+
     const changeHandler = useCallback((event: ChangeEvent<HTMLInputElement>) => {
         inputModifiedFlagRef.current = true;
 
         const newValue = event.target.value;
-        setInputValue(newValue);
+        updateInputValue(newValue);
 
         dispatch({ type: 'SET_CURSOR', payload: -1 });
 
         if (!open && newValue.length > 0) setOpen(true);
-    }, [open, setOpen, setInputValue, dispatch]);
+    }, [open, setOpen, updateInputValue, dispatch]);
 
+    // Separators are only handled in `changeHandler`, which runs after this for the same keystroke.
     const inputHandler = useCallback((event: React.FormEvent<HTMLInputElement>) => {
         inputModifiedFlagRef.current = true;
         const newValue = (event.target as HTMLInputElement).value;
@@ -756,6 +1072,16 @@ const ComboboxInput = forwardRef<HTMLInputElement, ComboboxInputProps>(function
         if (!open && newValue.length > 0) setOpen(true);
     }, [open, setOpen, setInputValue, dispatch]);
 
+    // Pasting a list creates all of its entries at once.
+    const pasteHandler = useCallback((event: React.ClipboardEvent<HTMLInputElement>) => {
+        const pasted = event.clipboardData.getData('text');
+        if (!multiple || !creatable || !CREATE_SEPARATOR.test(pasted)) return;
+
+        event.preventDefault();
+        inputModifiedFlagRef.current = true;
+        createFromText(`${inputValue},${pasted}`);
+    }, [multiple, creatable, inputValue, inputModifiedFlagRef, createFromText]);
+
     const clickHandler = useCallback(() => {
         if (disabled) return;
 
@@ -793,13 +1119,18 @@ const ComboboxInput = forwardRef<HTMLInputElement, ComboboxInputProps>(function
         if (disabled) return;
         if (event.key === ' ') return;
 
-        if (multiple && event.key === 'Backspace' && inputValue === '') {
-            const valueArray = Array.isArray(value) ? value : [];
+        // Backspace on an empty input, or the arrow towards the chips at its start, moves into the
+        // chips; Backspace there removes the chip, so the last one is never deleted by accident.
+        const input = event.currentTarget;
+        const startKey = getComputedStyle(input).direction === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+
+        if (multiple && (event.key === 'Backspace' || event.key === startKey)) {
+            const chips = (Array.isArray(value) ? value : []).filter(item => !disabledChipsRef.current.has(item));
+            const atStart = input.selectionStart === 0 && input.selectionEnd === 0;
 
-            if (valueArray.length > 0) {
+            if (chips.length > 0 && (event.key === 'Backspace' ? inputValue === '' : atStart)) {
                 event.preventDefault();
-                const newValue = valueArray.slice(0, -1);
-                setValue(newValue);
+                focusChip(chips[chips.length - 1]);
                 return;
             }
         }
@@ -957,6 +1288,8 @@ const ComboboxInput = forwardRef<HTMLInputElement, ComboboxInputProps>(function
                     }
                 }
 
+                else if (event.key === 'Enter' && open && canCreate) createFromText(inputValue);
+
                 else if (event.key === 'Tab' && open) {
                     // If allowCustomValue is true, don't revert the input
                     if (!allowCustomValue) {
@@ -1013,13 +1346,15 @@ const ComboboxInput = forwardRef<HTMLInputElement, ComboboxInputProps>(function
                     if (!item.disabled) toggleValue(item.value);
                 }
 
+                else if (event.key === 'Enter' && canCreate) createFromText(inputValue);
+
                 break;
 
             case ComboboxActions.SelectAll: {
                 if (multiple) {
                     const enabledItems = filteredItems.filter(item => !item.disabled);
                     const allValues = enabledItems.map(item => item.value);
-                    setValue(allValues);
+                    setValue(maxSelected === undefined ? allValues : allValues.slice(0, maxSelected));
                 }
 
                 break;
@@ -1051,7 +1386,8 @@ const ComboboxInput = forwardRef<HTMLInputElement, ComboboxInputProps>(function
         disabled, open, multiple, loopFocus, state.cursor, filteredItems,
         dispatch, setOpen, scrollRequestRef, triggerScroll, setValue, toggleValue,
         setInputValue, itemLabels, itemLabelsRef, value, inputValue,
-        triggerRef, inputRef, inputModifiedFlagRef, closeReasonRef
+        triggerRef, inputRef, inputModifiedFlagRef, closeReasonRef,
+        canCreate, createFromText, maxSelected, focusChip, disabledChipsRef
     ]);
 
     const Component = asChild ? Slot : 'input';
@@ -1060,11 +1396,14 @@ const ComboboxInput = forwardRef<HTMLInputElement, ComboboxInputProps>(function
         <Component
             data-ui="combobox-input"
 
+            data-invalid={createError !== null || undefined}
+
             aria-activedescendant={activeDescendant || undefined}
             aria-autocomplete="list"
             aria-controls={listboxId}
             aria-expanded={open}
             aria-haspopup="listbox"
+            aria-invalid={createError !== null || undefined}
             role="combobox"
 
             autoComplete="off"
@@ -1075,6 +1414,7 @@ const ComboboxInput = forwardRef<HTMLInputElement, ComboboxInputProps>(function
             value={inputValue}
             onInput={inputHandler}
             onChange={changeHandler}
+            onPaste={pasteHandler}
             onClick={clickHandler}
             onFocus={focusHandler}
             onBlur={blurHandler}
@@ -1107,21 +1447,65 @@ type ComboboxItemRender = (
 interface ComboboxValueProps extends HTMLAttributes<HTMLElement> {
     placeholder?: ReactNode;
     asChild?: boolean;
+    /** Defaults to 3, or to no limit when `collapse` is set. */
     maxDisplayedItems?: number;
+    /** Keep the chips on one line and collapse the ones that do not fit into a "+N more" chip. */
+    collapse?: boolean;
     itemRender?: ComboboxItemRender;
 }
 
+// Values of chips that are rendered, so they can be measured, but collapsed out of view.
+const ComboboxValueContext = createContext<{ hiddenValues: Set<string> } | null>(null);
+
 function ComboboxValue({
     className,
     children,
     placeholder,
     asChild,
-    maxDisplayedItems = 3,
+    collapse = false,
+    maxDisplayedItems = collapse ? Infinity : 3,
     itemRender,
     ...props
 }: ComboboxValueProps) {
     const context = useComboboxContext();
-    const { value, multiple, itemLabelsRef, itemLabels, toggleValue, disabled } = context;
+    const { value, multiple, itemLabelsRef, itemLabels, toggleValue, disabled, activeChip } = context;
+
+    const containerRef = useRef<HTMLElement>(null);
+    const [fittingCount, setFittingCount] = useState(Infinity);
+
+    // Navigating the chips by keyboard shows all of them so none is focused out of view.
+    const isExpanded = activeChip !== null;
+
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!collapse || isExpanded || !container) return;
+
+        const measure = () => {
+            const chips = Array.from(container.querySelectorAll<HTMLElement>(':scope > [data-ui="combobox-chip"]'));
+            const more = container.querySelector<HTMLElement>(':scope > [data-ui="combobox-chip-overflow"]');
+            const gap = parseFloat(getComputedStyle(container).columnGap) || 0;
+
+            let used = 0;
+            let count = 0;
+
+            for (const chip of chips) {
+                const width = used + (count > 0 ? gap : 0) + chip.offsetWidth;
+                const reserve = count < chips.length - 1 ? gap + (more?.offsetWidth ?? 0) : 0;
+                if (width + reserve > container.clientWidth) break;
+
+                used = width;
+                count++;
+            }
+
+            setFittingCount(count);
+        }
+
+        measure();
+
+        const observer = new ResizeObserver(measure);
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [collapse, isExpanded, value, itemLabels]);
 
     const Component = asChild ? Slot : 'span';
 
@@ -1173,8 +1557,13 @@ function ComboboxValue({
         }));
     }, [value, itemLabels, itemLabelsRef]);
 
-    const displayedItems = selectedItems.slice(0, maxDisplayedItems);
-    const remainingCount = Math.max(0, selectedItems.length - maxDisplayedItems);
+    const displayedCount = isExpanded ? selectedItems.length : Math.min(maxDisplayedItems, collapse ? fittingCount : Infinity);
+    const displayedItems = collapse ? selectedItems : selectedItems.slice(0, displayedCount);
+    const remainingCount = Math.max(0, selectedItems.length - displayedCount);
+
+    const valueContext = {
+        hiddenValues: new Set(selectedItems.slice(displayedCount).map(item => item.value)),
+    }
 
     const removeHandler = useCallback((itemValue: string) => {
         if (!disabled) toggleValue(itemValue);
@@ -1209,19 +1598,38 @@ function ComboboxValue({
     }
 
     return (
-        <Component
-            data-ui="combobox-value"
-            className={cn('flex flex-wrap items-center gap-1 overflow-hidden', className)}
-            {...props}
-        >
-            {displayedItems.map(item => (itemRender ?? defaultItemRender)(item, removeHandler, context))}
+        <ComboboxValueContext.Provider value={valueContext}>
+            <Component
+                data-ui="combobox-value"
+                data-collapsed={collapse && !isExpanded || undefined}
 
-            {
-                remainingCount > 0 && <span className="text-xs font-medium text-muted-write px-1">
-                    {`+${remainingCount}`}
-                </span>
-            }
-        </Component>
+                ref={containerRef}
+
+                className={cn(
+                    'flex flex-wrap items-center gap-1 overflow-hidden',
+                    collapse && !isExpanded && 'relative flex-nowrap min-w-0',
+                    className
+                )}
+
+                {...props}
+            >
+                {displayedItems.map(item => (itemRender ?? defaultItemRender)(item, removeHandler, context))}
+
+                {
+                    (remainingCount > 0 || collapse) && <span
+                        data-ui="combobox-chip-overflow"
+
+                        // Kept in place while collapsing so its width can be reserved.
+                        style={remainingCount > 0 ? undefined : { position: 'absolute', visibility: 'hidden' }}
+                        aria-hidden={remainingCount > 0 ? undefined : true}
+
+                        className="inline-flex items-center shrink-0 px-2 py-0.5 rounded text-sm/tight font-medium bg-muted-surface text-muted-write"
+                    >
+                        {`+${remainingCount} more`}
+                    </span>
+                }
+            </Component>
+        </ComboboxValueContext.Provider>
     );
 }
 
@@ -1235,21 +1643,201 @@ interface ComboboxChipProps extends HTMLAttributes<HTMLElement> {
     asChild?: boolean;
 }
 
-function ComboboxChip({ className, value, children, onRemove, disabled, asChild, ...props }: ComboboxChipProps) {
+function ComboboxChip({
+    className,
+    value,
+    children,
+    onRemove,
+    disabled,
+    asChild,
+    onFocus,
+    onBlur,
+    onKeyDown,
+    onDragStart,
+    onDragOver,
+    onDrop,
+    onDragEnd,
+    style,
+    ...props
+}: ComboboxChipProps) {
+    const {
+        value: selectedValues,
+        activeChip,
+        setActiveChip,
+        focusChip,
+        chipElementsRef,
+        disabledChipsRef,
+        dragChipRef,
+        moveValue,
+    } = useComboboxContext();
+
+    const valueContext = useContext(ComboboxValueContext);
+
+    const [isDragging, setIsDragging] = useState(false);
+
     const Component = asChild ? Slot : 'span';
 
+    const isHidden = value !== undefined && !!valueContext?.hiddenValues.has(value);
+    const isNavigable = value !== undefined && !disabled;
+
+    const setChipRef = useCallback((node: HTMLElement | null) => {
+        if (value === undefined) return;
+
+        if (node && isNavigable) chipElementsRef.current.set(value, node);
+        else chipElementsRef.current.delete(value);
+    }, [chipElementsRef, value, isNavigable]);
+
+    // Keyboard navigation skips disabled chips, including ones collapsed out of view, so the state
+    // outlives the chip's element.
+    useLayoutEffect(() => {
+        if (value === undefined) return;
+
+        if (disabled) disabledChipsRef.current.add(value);
+        else disabledChipsRef.current.delete(value);
+    }, [disabledChipsRef, value, disabled]);
+
     const removeClickHandler = useCallback((e: React.MouseEvent) => {
         e.stopPropagation();
         if (!disabled && onRemove && value) onRemove(value);
     }, [disabled, onRemove, value]);
 
+    const focusHandler = useCallback((e: React.FocusEvent<HTMLElement>) => {
+        onFocus?.(e);
+        if (value !== undefined) setActiveChip(value);
+    }, [onFocus, setActiveChip, value]);
+
+    const blurHandler = useCallback((e: React.FocusEvent<HTMLElement>) => {
+        onBlur?.(e);
+
+        // Moving between chips keeps the set expanded; focus leaving them collapses it again.
+        const next = e.relatedTarget;
+        if (next instanceof HTMLElement && next.closest('[data-ui="combobox-chip"]')) return;
+
+        setActiveChip(null);
+    }, [onBlur, setActiveChip]);
+
+    const keyDownHandler = useCallback((e: KeyboardEvent<HTMLElement>) => {
+        onKeyDown?.(e);
+        if (e.defaultPrevented || value === undefined) return;
+
+        const index = selectedValues.indexOf(value);
+        if (index < 0) return;
+
+        const navigable = (Array.isArray(selectedValues) ? selectedValues : []).filter(item => !disabledChipsRef.current.has(item));
+        const position = navigable.indexOf(value);
+
+        const previous = navigable[position - 1] ?? null;
+        const next = navigable[position + 1] ?? null;
+
+        // Left and right follow the reading direction, so in RTL ArrowLeft moves towards the input.
+        const isRtl = getComputedStyle(e.currentTarget).direction === 'rtl';
+        const key = isRtl && e.key === 'ArrowLeft' ? 'ArrowRight' : isRtl && e.key === 'ArrowRight' ? 'ArrowLeft' : e.key;
+
+        switch (key) {
+            case 'ArrowLeft':
+                if (e.altKey) moveValue(value, index - 1);
+                else if (previous !== null) focusChip(previous);
+                break;
+
+            case 'ArrowRight':
+                if (e.altKey) moveValue(value, index + 1);
+                else focusChip(next);
+                break;
+
+            case 'Home':
+                focusChip(navigable[0] ?? null);
+                break;
+
+            case 'End':
+                focusChip(navigable[navigable.length - 1] ?? null);
+                break;
+
+            case 'Backspace':
+            case 'Delete':
+                if (disabled || !onRemove) return;
+
+                onRemove(value);
+                focusChip(e.key === 'Backspace' ? previous ?? next : next);
+                break;
+
+            case 'Escape':
+                focusChip(null);
+                break;
+
+            default:
+                return;
+        }
+
+        e.preventDefault();
+        e.stopPropagation();
+    }, [onKeyDown, value, selectedValues, disabledChipsRef, moveValue, focusChip, disabled, onRemove]);
+
+    const dragStartHandler = useCallback((e: React.DragEvent<HTMLElement>) => {
+        onDragStart?.(e);
+        if (value === undefined) return;
+
+        dragChipRef.current = value;
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', value);
+
+        setIsDragging(true);
+    }, [onDragStart, dragChipRef, value]);
+
+    const dragOverHandler = useCallback((e: React.DragEvent<HTMLElement>) => {
+        onDragOver?.(e);
+
+        const dragged = dragChipRef.current;
+        if (dragged === null || dragged === value) return;
+
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+    }, [onDragOver, dragChipRef, value]);
+
+    const dropHandler = useCallback((e: React.DragEvent<HTMLElement>) => {
+        onDrop?.(e);
+
+        const dragged = dragChipRef.current;
+        if (dragged === null || value === undefined || dragged === value) return;
+
+        e.preventDefault();
+        moveValue(dragged, selectedValues.indexOf(value));
+    }, [onDrop, dragChipRef, value, moveValue, selectedValues]);
+
+    const dragEndHandler = useCallback((e: React.DragEvent<HTMLElement>) => {
+        onDragEnd?.(e);
+
+        dragChipRef.current = null;
+        setIsDragging(false);
+    }, [onDragEnd, dragChipRef]);
+
     return (
         <Component
             data-ui="combobox-chip"
+            data-value={value}
             data-disabled={disabled || undefined}
+            data-active={value !== undefined && activeChip === value || undefined}
+            data-dragging={isDragging || undefined}
+
+            ref={setChipRef}
+
+            tabIndex={isNavigable ? -1 : undefined}
+            draggable={isNavigable && !isHidden}
+            aria-hidden={isHidden || undefined}
+
+            onFocus={focusHandler}
+            onBlur={blurHandler}
+            onKeyDown={keyDownHandler}
+            onDragStart={dragStartHandler}
+            onDragOver={dragOverHandler}
+            onDrop={dropHandler}
+            onDragEnd={dragEndHandler}
+
+            style={isHidden ? { ...style, position: 'absolute', visibility: 'hidden', pointerEvents: 'none' } : style}
 
             className={cn(
-                'inline-flex items-center gap-1 px-2 py-0.5 rounded text-sm/tight font-medium bg-muted-surface text-write',
+                'inline-flex items-center gap-1 shrink-0 px-2 py-0.5 rounded text-sm/tight font-medium bg-muted-surface text-write',
+                'focus:outline-none data-[active]:ring-2 data-[active]:ring-outer-bound',
+                'data-[dragging]:opacity-50',
                 'data-[disabled]:opacity-50',
                 className
             )}
@@ -1442,16 +2030,21 @@ interface ComboboxContentProps extends HTMLAttributes<HTMLElement> {
     align?: Align;
     side?: Side;
 
-    alignOffset?: number;
-    sideOffset?: number;
+    alignOffset?: number | OffsetFunction;
+    sideOffset?: number | OffsetFunction;
 
-    sticky?: Sticky;
+    sticky?: boolean;
 
-    collisionBoundary?: Boundary;
+    collisionBoundary?: CollisionBoundary;
     collisionPadding?: Padding;
-    avoidCollisions?: boolean;
+    collisionAvoidance?: CollisionAvoidance;
 
-    hideWhenDetached?: boolean;
+    /** Overlay the popup on the trigger so the selected item lines up with it, falling back to side placement when there is no room. */
+    alignItemWithTrigger?: boolean;
+
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
     forceMount?: boolean;
 }
 
@@ -1468,13 +2061,16 @@ function ComboboxContent({
     alignOffset = 0,
     sideOffset = 4,
 
-    sticky = "partial",
-
-    avoidCollisions = true,
-    collisionBoundary = [],
+    sticky = false,
+    collisionAvoidance,
+    collisionBoundary = "clipping-ancestors",
     collisionPadding = 8,
 
-    hideWhenDetached = false,
+    alignItemWithTrigger = false,
+
+    hideWhenDetached = "none",
+    onAnchorHiddenChange,
+    onEscapedChange,
     forceMount = false,
 
     className,
@@ -1482,7 +2078,7 @@ function ComboboxContent({
 
     ...props
 }: ComboboxContentProps) {
-    const { open, setOpen, triggerRef, inputRef, contentRef, viewportRef, scrollRequestRef, scrollTrigger, filteredItems, dispatch, listboxId } = useComboboxContext();
+    const { open, setOpen, value, triggerRef, inputRef, contentRef, viewportRef, scrollRequestRef, scrollTrigger, filteredItems, dispatch, listboxId, loadStatus } = useComboboxContext();
 
     const [hasCollected, setHasCollected] = useState(false);
     const isCollectionPass = !hasCollected && !open;
@@ -1497,6 +2093,8 @@ function ComboboxContent({
         maxHeight,
         isPositioned,
         isReferenceHidden,
+        isEscaped,
+        isHidden,
         updatePosition,
     } = usePosition({
         relativeTo: triggerRef,
@@ -1506,13 +2104,36 @@ function ComboboxContent({
         align,
         sideOffset,
         alignOffset,
-        avoidCollisions,
+        collisionAvoidance,
         collisionBoundary,
         collisionPadding,
         sticky,
         hideWhenDetached,
+        onAnchorHiddenChange,
+        onEscapedChange,
+        onClose: () => setOpen(false),
     });
 
+    const itemAligned = useItemAlignedPosition({
+        enabled: alignItemWithTrigger && open,
+        isTargetRendered: isMounted && !isCollectionPass,
+        trigger: triggerRef,
+        target: contentRef,
+        scroller: viewportRef,
+        valueElement: inputRef,
+        getAlignedItem: () => {
+            const selectedValue = Array.isArray(value) ? value[0] : value;
+            const entry = filteredItems.find(item => item.value === selectedValue) ?? filteredItems[0];
+            if (!entry?.element) return null;
+
+            return { item: entry.element, text: entry.element.querySelector<HTMLElement>('[data-ui="combobox-item-text"], [data-ui="combobox-item-highlight"]') }
+        },
+    });
+
+    const contentTop = itemAligned.isActive ? itemAligned.top : top;
+    const contentLeft = itemAligned.isActive ? itemAligned.left : left;
+    const isContentPositioned = itemAligned.isActive ? itemAligned.isPositioned : isPositioned;
+
     useLayoutEffect(() => {
         if (!open || !isPositioned) return;
 
@@ -1522,6 +2143,13 @@ function ComboboxContent({
         const lastProcessed = lastProcessedRef.current;
         if (scrollTrigger === lastProcessed.trigger && lastProcessed.positioned) return;
 
+        // Item alignment already scrolled the aligned item into place when opening.
+        if (itemAligned.isActive && !lastProcessed.positioned) {
+            lastProcessedRef.current = { trigger: scrollTrigger, positioned: true }
+            scrollRequestRef.current = { type: 'none', targetIndex: -1 }
+            return;
+        }
+
         const viewport = viewportRef.current;
         if (!viewport) return;
 
@@ -1561,7 +2189,7 @@ function ComboboxContent({
         }
 
         scrollRequestRef.current = { type: 'none', targetIndex: -1 }
-    }, [open, isPositioned, scrollTrigger, filteredItems, scrollRequestRef, viewportRef]);
+    }, [open, isPositioned, itemAligned.isActive, scrollTrigger, filteredItems, scrollRequestRef, viewportRef]);
 
     useEffect(() => {
         if (!open) lastProcessedRef.current = { trigger: 0, positioned: false }
@@ -1677,10 +2305,14 @@ function ComboboxContent({
             data-ui="combobox-content"
             data-state={open ? "open" : "closed"}
             data-side={actualSide}
+            data-anchor-hidden={isReferenceHidden ? "" : undefined}
+            data-escaped={isEscaped ? "" : undefined}
+            data-align-mode={itemAligned.isActive ? "item" : undefined}
 
             role="listbox"
             id={listboxId}
             aria-label="Suggestions"
+            aria-busy={loadStatus === 'loading' || undefined}
 
             ref={contentRef}
             tabIndex={-1}
@@ -1689,13 +2321,13 @@ function ComboboxContent({
 
             style={{
                 position: 'fixed',
-                top: isCollectionPass ? '-9999px' : `${top}px`,
-                left: isCollectionPass ? '-9999px' : `${left}px`,
+                top: isCollectionPass ? '-9999px' : `${contentTop}px`,
+                left: isCollectionPass ? '-9999px' : `${contentLeft}px`,
                 zIndex: 50,
                 maxHeight: isCollectionPass ? undefined : (maxHeight ? `${maxHeight}px` : undefined),
                 display: 'flex',
                 flexDirection: 'column',
-                visibility: isCollectionPass ? 'hidden' : (isPositioned && !isReferenceHidden ? "visible" : "hidden"),
+                visibility: isCollectionPass ? 'hidden' : (isContentPositioned && !isHidden ? "visible" : "hidden"),
                 pointerEvents: isCollectionPass ? 'none' : 'auto',
                 opacity: isCollectionPass ? 0 : undefined,
             }}
@@ -1725,6 +2357,19 @@ interface ComboboxViewportProps extends HTMLAttributes<HTMLElement> {
     asChild?: boolean;
 }
 
+// Renders the options returned by `loadOptions` when the viewport is given no children.
+function ComboboxOptionList() {
+    const { options } = useComboboxContext();
+    if (!options) return null;
+
+    return options.map(option => (
+        <ComboboxItem key={option.value} value={option.value} textValue={option.label} disabled={option.disabled}>
+            <ComboboxItemHighlight>{option.label}</ComboboxItemHighlight>
+            <ComboboxItemIndicator />
+        </ComboboxItem>
+    ));
+}
+
 function ComboboxViewport({ children, className, asChild, ...props }: ComboboxViewportProps) {
     const { viewportRef } = useComboboxContext();
 
@@ -1738,13 +2383,13 @@ function ComboboxViewport({ children, className, asChild, ...props }: ComboboxVi
             tabIndex={-1}
 
             className={cn(
-                '[scrollbar-width:none] p-1 w-full flex-1 overflow-y-auto',
+                '[scrollbar-width:none] p-1 w-full flex-1 flex flex-col overflow-y-auto',
                 className
             )}
 
             {...props}
         >
-            {children}
+            {children ?? <ComboboxOptionList />}
         </Component>
     );
 }
@@ -1756,9 +2401,12 @@ interface ComboboxEmptyProps extends HTMLAttributes<HTMLElement> {
 }
 
 function ComboboxEmpty({ children, className, asChild, ...props }: ComboboxEmptyProps) {
-    const { filteredItems, open } = useComboboxContext();
+    const { filteredItems, open, options, loadStatus } = useComboboxContext();
     if (!open || filteredItems.length > 0) return null;
 
+    // With a remote source, nothing is empty until a response says so.
+    if (loadStatus === 'loading' || loadStatus === 'error' || (loadStatus === 'idle' && options === null)) return null;
+
     const Component = asChild ? Slot : 'div';
 
     return (
@@ -1782,8 +2430,188 @@ function ComboboxEmpty({ children, className, asChild, ...props }: ComboboxEmpty
 
 // ---------------------------------------------------------------------------------------------------- //
 
+interface ComboboxLoadingProps extends HTMLAttributes<HTMLElement> {
+    asChild?: boolean;
+}
+
+function ComboboxLoading({ children, className, asChild, ...props }: ComboboxLoadingProps) {
+    const { open, loadStatus } = useComboboxContext();
+    if (!open || loadStatus !== 'loading') return null;
+
+    const Component = asChild ? Slot : 'div';
+
+    return (
+        <Component
+            data-ui="combobox-loading"
+
+            role="status"
+            aria-live="polite"
+
+            className={cn(
+                'flex items-center justify-start w-full text-sm text-muted-write px-2 py-1.5 rounded',
+                className
+            )}
+
+            {...props}
+        >
+            {children ?? 'Loading...'}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface ComboboxErrorProps extends Omit<HTMLAttributes<HTMLElement>, 'children'> {
+    /** Content shown when `loadOptions` rejects; a function receives the rejection reason and a retry callback. */
+    children?: ReactNode | ((error: unknown, retry: () => void) => ReactNode);
+    asChild?: boolean;
+}
+
+function ComboboxError({ children, className, asChild, ...props }: ComboboxErrorProps) {
+    const { open, loadStatus, loadError, retryLoad, inputRef } = useComboboxContext();
+
+    const retryHandler = useCallback(() => {
+        retryLoad();
+        inputRef.current?.focus();
+    }, [retryLoad, inputRef]);
+
+    if (!open || loadStatus !== 'error') return null;
+
+    const Component = asChild ? Slot : 'div';
+
+    return (
+        <Component
+            data-ui="combobox-error"
+
+            role="alert"
+
+            className={cn(
+                'flex items-center justify-between gap-2 w-full text-sm text-muted-write px-2 py-1.5 rounded',
+                className
+            )}
+
+            {...props}
+        >
+            {typeof children === 'function' ? children(loadError, retryLoad) : children ?? (
+                <>
+                    Failed to load options.
+                    <button
+                        data-ui="combobox-retry"
+
+                        type="button"
+                        tabIndex={-1}
+
+                        onMouseDown={event => event.preventDefault()}
+                        onClick={retryHandler}
+
+                        className="text-write underline underline-offset-2"
+                    >
+                        Retry
+                    </button>
+                </>
+            )}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface ComboboxLimitProps extends Omit<HTMLAttributes<HTMLElement>, 'children'> {
+    /** Content shown once `maxSelected` values are selected; a function receives the limit. */
+    children?: ReactNode | ((max: number) => ReactNode);
+    asChild?: boolean;
+}
+
+function ComboboxLimit({ children, className, asChild, ...props }: ComboboxLimitProps) {
+    const { isAtLimit, maxSelected } = useComboboxContext();
+    if (!isAtLimit || maxSelected === undefined) return null;
+
+    const Component = asChild ? Slot : 'div';
+
+    return (
+        <Component
+            data-ui="combobox-limit"
+
+            role="status"
+            aria-live="polite"
+
+            className={cn(
+                'flex items-center justify-start w-full text-sm text-muted-write px-2 py-1.5 rounded',
+                className
+            )}
+
+            {...props}
+        >
+            {typeof children === 'function' ? children(maxSelected) : children ?? `You can select up to ${maxSelected} items.`}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface ComboboxCreateProps extends Omit<HTMLAttributes<HTMLElement>, 'children'> {
+    /** Content of the option; a function receives the text that would be created. */
+    children?: ReactNode | ((inputValue: string) => ReactNode);
+    asChild?: boolean;
+}
+
+/**
+ * Option offering to create the typed text when no item matches it exactly. It is highlighted while
+ * no item is, so Enter creates; a rejected `onCreate` shows its message here.
+ */
+function ComboboxCreate({ children, className, asChild, ...props }: ComboboxCreateProps) {
+    const { state, query, canCreate, isCreating, createError, createFromText, inputRef } = useComboboxContext();
+
+    const label = query.trim();
+
+    const clickHandler = useCallback(() => {
+        createFromText(label);
+        inputRef.current?.focus();
+    }, [createFromText, label, inputRef]);
+
+    if (!canCreate) return null;
+
+    const Component = asChild ? Slot : 'div';
+
+    return (
+        <Component
+            data-ui="combobox-create"
+
+            data-highlighted={state.cursor < 0 ? "" : undefined}
+            data-pending={isCreating || undefined}
+            data-invalid={createError !== null || undefined}
+
+            role="option"
+            aria-selected={false}
+            aria-disabled={isCreating || undefined}
+
+            onMouseDown={event => event.preventDefault()}
+            onClick={clickHandler}
+
+            className={cn(
+                'flex flex-col items-start w-full text-sm text-write px-2 py-1.5 rounded cursor-pointer order-last',
+                'data-[highlighted]:bg-muted-surface data-[pending]:opacity-50 data-[pending]:cursor-wait',
+                className
+            )}
+
+            {...props}
+        >
+            {typeof children === 'function' ? children(label) : children ?? `Create "${label}"`}
+
+            {createError !== null && (
+                <span data-ui="combobox-create-error" role="alert" className="text-xs text-danger">
+                    {createError}
+                </span>
+            )}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
 interface ComboboxItemContextState {
     textElementRef: RefObject<HTMLElement | null>;
+    textValue: string;
     selected: boolean;
 }
 
@@ -1810,7 +2638,7 @@ function ComboboxItem({ children, className, value, disabled, textValue, asChild
         value: currentValue, multiple,
         state, dispatch, registerItemLabel,
         highlightItemOnHover, filteredItems, filteredItemIds, itemLabels, itemLabelsRef,
-        inputModifiedFlagRef,
+        inputModifiedFlagRef, isAtLimit,
     } = useComboboxContext();
 
     const ref = useRef<HTMLDivElement>(null);
@@ -1822,11 +2650,15 @@ function ComboboxItem({ children, className, value, disabled, textValue, asChild
         ? (Array.isArray(currentValue) && value ? currentValue.includes(value) : false)
         : value === currentValue;
 
+    // At `maxSelected`, unselected items can no longer be picked but stay reachable for removal.
+    const isBlocked = !!disabled || (isAtLimit && !selected);
+
     const isFiltered = filteredItemIds.has(itemId);
     const itemIndex = filteredItems.findIndex(item => item.id === itemId);
     const highlighted = itemIndex >= 0 && state.cursor === itemIndex;
 
-    const context: ComboboxItemContextState = { textElementRef, selected }
+    const resolvedLabel = textValue ?? (value ? itemLabels.get(value) : undefined) ?? value ?? '';
+    const context: ComboboxItemContextState = { textElementRef, textValue: resolvedLabel, selected }
 
     const getResolvedTextValue = useCallback(() => {
         return textValue ??
@@ -1904,10 +2736,10 @@ function ComboboxItem({ children, className, value, disabled, textValue, asChild
                 data-ui="combobox-item"
                 data-state={selected ? 'checked' : 'unchecked'}
                 data-highlighted={highlighted}
-                data-disabled={disabled}
+                data-disabled={isBlocked}
 
                 aria-selected={selected}
-                aria-disabled={disabled}
+                aria-disabled={isBlocked}
                 role="option"
                 aria-hidden={!isFiltered || undefined}
 
@@ -1969,6 +2801,62 @@ function ComboboxItemText({ className, children, asChild, ...props }: ComboboxIt
 
 // ---------------------------------------------------------------------------------------------------- //
 
+interface ComboboxItemHighlightProps extends HTMLAttributes<HTMLElement> {
+    /** Text to mark up; defaults to the item's text value. */
+    children?: string;
+    asChild?: boolean;
+}
+
+/**
+ * Item text with the characters matching the current query wrapped in `<mark>`. Use it in place of
+ * `ComboboxItemText`. Nothing is marked with a custom `filter` or `loadOptions`, which may match differently.
+ */
+function ComboboxItemHighlight({ className, children, asChild, ...props }: ComboboxItemHighlightProps) {
+    const { query, isDefaultFilter } = useComboboxContext();
+    const { textElementRef, textValue } = useComboboxItemContext();
+
+    const text = children ?? textValue;
+    const ranges = useMemo(() => isDefaultFilter ? fuzzyMatch(query, text)?.ranges ?? [] : [], [isDefaultFilter, query, text]);
+
+    const segments: ReactNode[] = [];
+    let position = 0;
+
+    for (const [start, end] of ranges) {
+        if (start > position) segments.push(text.slice(position, start));
+
+        segments.push(
+            <mark key={start} data-ui="combobox-item-highlight-mark" className="bg-transparent text-write font-semibold">
+                {text.slice(start, end)}
+            </mark>
+        );
+
+        position = end;
+    }
+
+    if (position < text.length) segments.push(text.slice(position));
+
+    const Component = asChild ? Slot : 'span';
+
+    return (
+        <Component
+            data-ui="combobox-item-highlight"
+
+            ref={textElementRef}
+
+            className={cn(
+                'flex-1 truncate',
+                className
+            )}
+
+            {...props}
+        >
+            {segments}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
 interface ComboboxItemIndicatorProps extends HTMLAttributes<HTMLElement> {
     asChild?: boolean;
 }
@@ -2132,6 +3020,8 @@ interface ComboboxSeparatorProps extends HTMLAttributes<HTMLElement> {
 }
 
 function ComboboxSeparator({ className, children, asChild, ...props }: ComboboxSeparatorProps) {
+    const { query } = useComboboxContext();
+
     const Component = asChild ? Slot : 'span';
 
     return (
@@ -2145,6 +3035,8 @@ function ComboboxSeparator({ className, children, asChild, ...props }: ComboboxS
                 'block h-px my-1 -mx-1 bg-muted-bound',
                 'has-[+_[data-hidden]]:hidden',
                 '[[data-hidden]+&]:hidden',
+                // Ranked results no longer follow the sections the separators divide.
+                query && 'hidden',
                 className
             )}
 
@@ -2349,8 +3241,13 @@ export {
     ComboboxContent,
     ComboboxViewport,
     ComboboxEmpty,
+    ComboboxLimit,
+    ComboboxCreate,
+    ComboboxLoading,
+    ComboboxError,
     ComboboxItem,
     ComboboxItemText,
+    ComboboxItemHighlight,
     ComboboxItemIndicator,
     ComboboxGroup,
     ComboboxLabel,
@@ -2368,8 +3265,13 @@ export {
     type ComboboxContentProps,
     type ComboboxViewportProps,
     type ComboboxEmptyProps,
+    type ComboboxLimitProps,
+    type ComboboxCreateProps,
+    type ComboboxLoadingProps,
+    type ComboboxErrorProps,
     type ComboboxItemProps,
     type ComboboxItemTextProps,
+    type ComboboxItemHighlightProps,
     type ComboboxItemIndicatorProps,
     type ComboboxGroupProps,
     type ComboboxLabelProps,
@@ -2378,6 +3280,8 @@ export {
     type ComboboxScrollDownButtonProps,
     type ComboboxActionsRef,
     type ComboboxFilterFunction,
+    type ComboboxOption,
+    type ComboboxLoadOptionsFunction,
 }
 
 // ---------------------------------------------------------------------------------------------------- //
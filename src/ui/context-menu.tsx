@@ -17,11 +17,13 @@ import { createPortal } from "react-dom";
 
 import {
     usePosition,
-    type Padding,
     type Align,
+    type CollisionAvoidance,
+    type CollisionBoundary,
+    type HideWhenDetached,
+    type OffsetFunction,
+    type Padding,
     type Side,
-    type Sticky,
-    type Boundary,
 } from "@/hooks/use-position";
 
 import { useControllableState } from "@/hooks/use-controllable-state";
@@ -447,16 +449,18 @@ interface ContextMenuContentProps extends HTMLAttributes<HTMLElement> {
     align?: Align;
     side?: Side;
 
-    alignOffset?: number;
-    sideOffset?: number;
+    alignOffset?: number | OffsetFunction;
+    sideOffset?: number | OffsetFunction;
 
-    sticky?: Sticky;
+    sticky?: boolean;
 
-    collisionBoundary?: Boundary;
+    collisionBoundary?: CollisionBoundary;
     collisionPadding?: Padding;
-    avoidCollisions?: boolean;
+    collisionAvoidance?: CollisionAvoidance;
 
-    hideWhenDetached?: boolean;
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
     forceMount?: boolean;
     loop?: boolean;
     asChild?: boolean;
@@ -476,13 +480,14 @@ function ContextMenuContent({
     alignOffset = 0,
     sideOffset = 4,
 
-    sticky = "partial",
-
-    avoidCollisions = true,
-    collisionBoundary = [],
+    sticky = false,
+    collisionAvoidance,
+    collisionBoundary = "clipping-ancestors",
     collisionPadding = 8,
 
-    hideWhenDetached = false,
+    hideWhenDetached = "none",
+    onAnchorHiddenChange,
+    onEscapedChange,
     forceMount = false,
     loop = false,
     asChild = false,
@@ -520,7 +525,9 @@ function ContextMenuContent({
         maxHeight,
         maxWidth,
         isPositioned,
-        isReferenceHidden
+        isReferenceHidden,
+        isEscaped,
+        isHidden,
     } = usePosition({
         relativeTo: mouseEvent || triggerRef,
         target: contentRef,
@@ -529,11 +536,14 @@ function ContextMenuContent({
         align,
         sideOffset,
         alignOffset,
-        avoidCollisions,
+        collisionAvoidance,
         collisionBoundary,
         collisionPadding,
         sticky,
         hideWhenDetached,
+        onAnchorHiddenChange,
+        onEscapedChange,
+        onClose: () => onOpenChange(false),
     });
 
     const typeaheadTimeoutRef = useRef<number | null>(null);
@@ -819,6 +829,8 @@ function ContextMenuContent({
         <Component
             data-ui="context-menu-content"
             data-side={actualSide}
+            data-anchor-hidden={isReferenceHidden ? "" : undefined}
+            data-escaped={isEscaped ? "" : undefined}
             data-state={open ? "open" : "closed"}
 
             aria-labelledby={triggerId}
@@ -841,7 +853,7 @@ function ContextMenuContent({
                 maxWidth: maxWidth ? `${maxWidth}px` : undefined,
                 overflowY: maxHeight ? "auto" : undefined,
                 overflowX: maxWidth ? "auto" : undefined,
-                visibility: isPositioned && !isReferenceHidden ? "visible" : "hidden",
+                visibility: isPositioned && !isHidden ? "visible" : "hidden",
             }}
 
             className={cn(
@@ -1841,13 +1853,15 @@ interface ContextMenuSubContentProps extends HTMLAttributes<HTMLElement> {
 
     loop?: boolean;
     forceMount?: boolean;
-    sideOffset?: number;
-    alignOffset?: number;
-    avoidCollisions?: boolean;
-    collisionBoundary?: Boundary;
+    sideOffset?: number | OffsetFunction;
+    alignOffset?: number | OffsetFunction;
+    collisionAvoidance?: CollisionAvoidance;
+    collisionBoundary?: CollisionBoundary;
     collisionPadding?: Padding;
-    sticky?: Sticky;
-    hideWhenDetached?: boolean;
+    sticky?: boolean;
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
     asChild?: boolean;
 }
 
@@ -1858,11 +1872,13 @@ function ContextMenuSubContent({
     loop = false,
     sideOffset = 0,
     alignOffset = -4,
-    avoidCollisions = true,
-    collisionBoundary = [],
+    collisionAvoidance,
+    collisionBoundary = "clipping-ancestors",
     collisionPadding = 8,
-    sticky = "partial",
-    hideWhenDetached = false,
+    sticky = false,
+    hideWhenDetached = "none",
+    onAnchorHiddenChange,
+    onEscapedChange,
     asChild = false,
     onKeyDown,
     onMouseEnter,
@@ -1898,18 +1914,21 @@ function ContextMenuSubContent({
     const subMenuSide: Side = dir === "rtl" ? "left" : "right";
     const subMenuAlignOffset = alignOffset ?? -4;
 
-    const { top, left, actualSide, isPositioned, isReferenceHidden } = usePosition({
+    const { top, left, actualSide, isPositioned, isReferenceHidden, isEscaped, isHidden } = usePosition({
         relativeTo: subTriggerRef,
         target: subContentRef,
         isTargetRendered: isMounted,
         side: subMenuSide,
         sideOffset,
         alignOffset: subMenuAlignOffset,
-        avoidCollisions,
+        collisionAvoidance,
         collisionBoundary,
         collisionPadding,
         sticky,
         hideWhenDetached,
+        onAnchorHiddenChange,
+        onEscapedChange,
+        onClose: () => onOpenChange(false),
     });
 
     const typeaheadTimeoutRef = useRef<number | null>(null);
@@ -2277,6 +2296,8 @@ function ContextMenuSubContent({
             data-ui="context-menu-sub-content"
             data-state={open ? "open" : "closed"}
             data-side={actualSide}
+            data-anchor-hidden={isReferenceHidden ? "" : undefined}
+            data-escaped={isEscaped ? "" : undefined}
 
             ref={subContentRef as RefObject<HTMLDivElement>}
             id={subContentId}
@@ -2296,7 +2317,7 @@ function ContextMenuSubContent({
                 top: `${top}px`,
                 left: `${left}px`,
                 zIndex: 50,
-                visibility: isPositioned && !isReferenceHidden ? "visible" : "hidden",
+                visibility: isPositioned && !isHidden ? "visible" : "hidden",
             }}
 
             className={cn(
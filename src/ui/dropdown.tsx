@@ -17,11 +17,13 @@ import { createPortal } from "react-dom";
 
 import {
     usePosition,
-    type Padding,
     type Align,
+    type CollisionAvoidance,
+    type CollisionBoundary,
+    type HideWhenDetached,
+    type OffsetFunction,
+    type Padding,
     type Side,
-    type Sticky,
-    type Boundary,
 } from "@/hooks/use-position";
 
 import { useControllableState } from "@/hooks/use-controllable-state";
@@ -438,16 +440,18 @@ interface DropdownContentProps extends HTMLAttributes<HTMLElement> {
     align?: Align;
     side?: Side;
 
-    alignOffset?: number;
-    sideOffset?: number;
+    alignOffset?: number | OffsetFunction;
+    sideOffset?: number | OffsetFunction;
 
-    sticky?: Sticky;
+    sticky?: boolean;
 
-    collisionBoundary?: Boundary;
+    collisionBoundary?: CollisionBoundary;
     collisionPadding?: Padding;
-    avoidCollisions?: boolean;
+    collisionAvoidance?: CollisionAvoidance;
 
-    hideWhenDetached?: boolean;
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
     forceMount?: boolean;
     loop?: boolean;
     asChild?: boolean;
@@ -467,13 +471,14 @@ function DropdownContent({
     alignOffset = 0,
     sideOffset = 4,
 
-    sticky = "partial",
-
-    avoidCollisions = true,
-    collisionBoundary = [],
+    sticky = false,
+    collisionAvoidance,
+    collisionBoundary = "clipping-ancestors",
     collisionPadding = 8,
 
-    hideWhenDetached = false,
+    hideWhenDetached = "none",
+    onAnchorHiddenChange,
+    onEscapedChange,
     forceMount = false,
     loop = false,
     asChild = false,
@@ -510,20 +515,26 @@ function DropdownContent({
         maxHeight,
         maxWidth,
         isPositioned,
-        isReferenceHidden
+        isReferenceHidden,
+        isEscaped,
+        isHidden,
     } = usePosition({
         relativeTo: triggerRef,
         target: contentRef,
         isTargetRendered: isMounted,
+        dir,
         side,
         align,
         sideOffset,
         alignOffset,
-        avoidCollisions,
+        collisionAvoidance,
         collisionBoundary,
         collisionPadding,
         sticky,
         hideWhenDetached,
+        onAnchorHiddenChange,
+        onEscapedChange,
+        onClose: () => onOpenChange(false),
     });
 
     const typeaheadTimeoutRef = useRef<number | null>(null);
@@ -814,6 +825,8 @@ function DropdownContent({
         <Component
             data-ui="dropdown-content"
             data-side={actualSide}
+            data-anchor-hidden={isReferenceHidden ? "" : undefined}
+            data-escaped={isEscaped ? "" : undefined}
             data-state={open ? "open" : "closed"}
 
             aria-labelledby={triggerId}
@@ -836,7 +849,7 @@ function DropdownContent({
                 maxWidth: maxWidth ? `${maxWidth}px` : undefined,
                 overflowY: maxHeight ? "auto" : undefined,
                 overflowX: maxWidth ? "auto" : undefined,
-                visibility: isPositioned && !isReferenceHidden ? "visible" : "hidden",
+                visibility: isPositioned && !isHidden ? "visible" : "hidden",
             }}
 
             className={cn(
@@ -1842,13 +1855,15 @@ interface DropdownSubContentProps extends HTMLAttributes<HTMLElement> {
 
     loop?: boolean;
     forceMount?: boolean;
-    sideOffset?: number;
-    alignOffset?: number;
-    avoidCollisions?: boolean;
-    collisionBoundary?: Boundary;
+    sideOffset?: number | OffsetFunction;
+    alignOffset?: number | OffsetFunction;
+    collisionAvoidance?: CollisionAvoidance;
+    collisionBoundary?: CollisionBoundary;
     collisionPadding?: Padding;
-    sticky?: Sticky;
-    hideWhenDetached?: boolean;
+    sticky?: boolean;
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
     asChild?: boolean;
 }
 
@@ -1859,11 +1874,13 @@ function DropdownSubContent({
     loop = false,
     sideOffset = 0,
     alignOffset = -4,
-    avoidCollisions = true,
-    collisionBoundary = [],
+    collisionAvoidance,
+    collisionBoundary = "clipping-ancestors",
     collisionPadding = 8,
-    sticky = "partial",
-    hideWhenDetached = false,
+    sticky = false,
+    hideWhenDetached = "none",
+    onAnchorHiddenChange,
+    onEscapedChange,
     asChild = false,
     onKeyDown,
     onMouseEnter,
@@ -1899,18 +1916,22 @@ function DropdownSubContent({
     const subMenuSide: Side = dir === "rtl" ? "left" : "right";
     const subMenuAlignOffset = alignOffset ?? -4;
 
-    const { top, left, actualSide, isPositioned, isReferenceHidden } = usePosition({
+    const { top, left, actualSide, isPositioned, isReferenceHidden, isEscaped, isHidden } = usePosition({
         relativeTo: subTriggerRef,
         target: subContentRef,
         isTargetRendered: isMounted,
+        dir,
         side: subMenuSide,
         sideOffset,
         alignOffset: subMenuAlignOffset,
-        avoidCollisions,
+        collisionAvoidance,
         collisionBoundary,
         collisionPadding,
         sticky,
         hideWhenDetached,
+        onAnchorHiddenChange,
+        onEscapedChange,
+        onClose: () => onOpenChange(false),
     });
 
     const typeaheadTimeoutRef = useRef<number | null>(null);
@@ -2278,6 +2299,8 @@ function DropdownSubContent({
             data-ui="dropdown-sub-content"
             data-state={open ? "open" : "closed"}
             data-side={actualSide}
+            data-anchor-hidden={isReferenceHidden ? "" : undefined}
+            data-escaped={isEscaped ? "" : undefined}
 
             ref={subContentRef as RefObject<HTMLDivElement>}
             id={subContentId}
@@ -2297,7 +2320,7 @@ function DropdownSubContent({
                 top: `${top}px`,
                 left: `${left}px`,
                 zIndex: 50,
-                visibility: isPositioned && !isReferenceHidden ? "visible" : "hidden",
+                visibility: isPositioned && !isHidden ? "visible" : "hidden",
             }}
 
             className={cn(
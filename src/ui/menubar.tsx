@@ -19,11 +19,13 @@ import { createPortal } from "react-dom";
 
 import {
     usePosition,
-    type Padding,
     type Align,
+    type CollisionAvoidance,
+    type CollisionBoundary,
+    type HideWhenDetached,
+    type OffsetFunction,
+    type Padding,
     type Side,
-    type Sticky,
-    type Boundary,
 } from "@/hooks/use-position";
 
 import { useControllableState } from "@/hooks/use-controllable-state";
@@ -601,12 +603,15 @@ function MenubarPortal({ children, container }: MenubarPortalProps) {
 interface MenubarContentProps extends HTMLAttributes<HTMLDivElement> {
     align?: Align;
     side?: Side;
-    sideOffset?: number;
-    alignOffset?: number;
-    sticky?: Sticky;
-    avoidCollisions?: boolean;
-    collisionBoundary?: Boundary;
+    sideOffset?: number | OffsetFunction;
+    alignOffset?: number | OffsetFunction;
+    sticky?: boolean;
+    collisionAvoidance?: CollisionAvoidance;
+    collisionBoundary?: CollisionBoundary;
     collisionPadding?: Padding;
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
     forceMount?: boolean;
     loop?: boolean;
     asChild?: boolean;
@@ -619,10 +624,13 @@ function MenubarContent({
     side = "bottom",
     sideOffset = 8,
     alignOffset = 0,
-    sticky = "partial",
-    avoidCollisions = true,
-    collisionBoundary = [],
+    sticky = false,
+    collisionAvoidance,
+    collisionBoundary = "clipping-ancestors",
     collisionPadding = 8,
+    hideWhenDetached = "none",
+    onAnchorHiddenChange,
+    onEscapedChange,
     forceMount = false,
     loop = false,
     asChild = false,
@@ -642,7 +650,7 @@ function MenubarContent({
     const typeaheadTimeoutRef = useRef<number | null>(null);
     const needsFocusOnMount = useRef(false);
 
-    const { top, left, actualSide, isPositioned } = usePosition({
+    const { top, left, actualSide, isPositioned, isReferenceHidden, isEscaped, isHidden } = usePosition({
         relativeTo: menu.triggerRef,
         target: menu.contentRef,
         isTargetRendered: isMounted,
@@ -650,10 +658,14 @@ function MenubarContent({
         align,
         sideOffset,
         alignOffset,
-        avoidCollisions,
+        collisionAvoidance,
         collisionBoundary,
         collisionPadding,
         sticky,
+        hideWhenDetached,
+        onAnchorHiddenChange,
+        onEscapedChange,
+        onClose: () => menu.onOpenChange(false),
     });
 
     useEffect(() => {
@@ -976,6 +988,8 @@ function MenubarContent({
             data-ui="menubar-content"
             data-state={menu.isOpen ? "open" : "closed"}
             data-side={actualSide}
+            data-anchor-hidden={isReferenceHidden ? "" : undefined}
+            data-escaped={isEscaped ? "" : undefined}
 
             ref={menu.contentRef}
             id={menu.contentId}
@@ -993,7 +1007,7 @@ function MenubarContent({
                 top: `${top}px`,
                 left: `${left}px`,
                 zIndex: 50,
-                visibility: isPositioned ? "visible" : "hidden",
+                visibility: isPositioned && !isHidden ? "visible" : "hidden",
             }}
 
             className={cn(
@@ -1896,12 +1910,15 @@ function MenubarSubTriggerIndicator({
 interface MenubarSubContentProps extends HTMLAttributes<HTMLDivElement> {
     align?: Align;
     side?: Side;
-    sideOffset?: number;
-    alignOffset?: number;
-    sticky?: Sticky;
-    avoidCollisions?: boolean;
-    collisionBoundary?: Boundary;
+    sideOffset?: number | OffsetFunction;
+    alignOffset?: number | OffsetFunction;
+    sticky?: boolean;
+    collisionAvoidance?: CollisionAvoidance;
+    collisionBoundary?: CollisionBoundary;
     collisionPadding?: Padding;
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
     forceMount?: boolean;
     loop?: boolean;
     asChild?: boolean;
@@ -1912,10 +1929,13 @@ function MenubarSubContent({
     side = "right",
     sideOffset = 0,
     alignOffset = -4,
-    sticky = "partial",
-    avoidCollisions = true,
-    collisionBoundary = [],
+    sticky = false,
+    collisionAvoidance,
+    collisionBoundary = "clipping-ancestors",
     collisionPadding = 8,
+    hideWhenDetached = "none",
+    onAnchorHiddenChange,
+    onEscapedChange,
     forceMount = false,
     loop = false,
     asChild = false,
@@ -1932,7 +1952,7 @@ function MenubarSubContent({
     const hasInitialSubFocusRun = useRef(false);
     const closeTimeoutRef = useRef<number | null>(null);
 
-    const { top, left, actualSide, isPositioned } = usePosition({
+    const { top, left, actualSide, isPositioned, isReferenceHidden, isEscaped, isHidden } = usePosition({
         relativeTo: sub.subTriggerRef,
         target: sub.subContentRef,
         isTargetRendered: isMounted,
@@ -1940,10 +1960,14 @@ function MenubarSubContent({
         align,
         sideOffset,
         alignOffset,
-        avoidCollisions,
+        collisionAvoidance,
         collisionBoundary,
         collisionPadding,
         sticky,
+        hideWhenDetached,
+        onAnchorHiddenChange,
+        onEscapedChange,
+        onClose: () => sub.onOpenChange(false),
     });
 
     useEffect(() => {
@@ -2174,6 +2198,8 @@ function MenubarSubContent({
         <Component
             data-ui="menubar-sub-content"
             data-side={actualSide}
+            data-anchor-hidden={isReferenceHidden ? "" : undefined}
+            data-escaped={isEscaped ? "" : undefined}
             data-state={sub.isOpen ? "open" : "closed"}
 
             ref={sub.subContentRef}
@@ -2194,7 +2220,7 @@ function MenubarSubContent({
                 top: `${top}px`,
                 left: `${left}px`,
                 zIndex: 51,
-                visibility: isPositioned ? "visible" : "hidden",
+                visibility: isPositioned && !isHidden ? "visible" : "hidden",
             }}
 
             className={cn(
@@ -22,13 +22,17 @@ import { useControllableState } from "@/hooks/use-controllable-state";
 
 import {
     usePosition,
-    type Boundary,
-    type Padding,
-    type Sticky,
     type Align,
+    type CollisionAvoidance,
+    type CollisionBoundary,
+    type HideWhenDetached,
+    type OffsetFunction,
+    type Padding,
     type Side,
 } from "@/hooks/use-position";
 
+import { useItemAlignedPosition } from "@/hooks/use-item-aligned-position";
+
 import { Slot } from "@/ui/slot";
 import { cn } from "@/cn";
 
@@ -153,6 +157,7 @@ interface MultiSelectContextState {
     setOpen: (open: boolean) => void;
 
     disabled: boolean;
+    dir?: "ltr" | "rtl";
 
     state: MultiSelectState;
     dispatch: Dispatch<MultiSelectStateAction>;
@@ -208,6 +213,7 @@ function MultiSelect({
     defaultValue, onValueChange, value,
     defaultOpen, onOpenChange, open,
     disabled = false,
+    dir,
     children,
 }: MultiSelectProps) {
     const [valueState, setValue] = useControllableState({
@@ -312,6 +318,7 @@ function MultiSelect({
         open: openState,
         setOpen,
         disabled,
+        dir,
         state,
         dispatch,
         activeDescendant,
@@ -324,7 +331,7 @@ function MultiSelect({
         scrollRequestRef,
         scrollTrigger,
         triggerScroll,
-    }), [valueState, setValue, toggleValue, openState, setOpen, disabled, state, activeDescendant, itemLabels, registerItemLabel, scrollTrigger, triggerScroll]);
+    }), [valueState, setValue, toggleValue, openState, setOpen, disabled, dir, state, activeDescendant, itemLabels, registerItemLabel, scrollTrigger, triggerScroll]);
 
     return (
         <MultiSelectContext.Provider data-ui="multi-select" value={context}>
@@ -982,16 +989,21 @@ interface MultiSelectContentProps extends HTMLAttributes<HTMLElement> {
     align?: Align;
     side?: Side;
 
-    alignOffset?: number;
-    sideOffset?: number;
+    alignOffset?: number | OffsetFunction;
+    sideOffset?: number | OffsetFunction;
 
-    sticky?: Sticky;
+    sticky?: boolean;
 
-    collisionBoundary?: Boundary;
+    collisionBoundary?: CollisionBoundary;
     collisionPadding?: Padding;
-    avoidCollisions?: boolean;
+    collisionAvoidance?: CollisionAvoidance;
 
-    hideWhenDetached?: boolean;
+    /** Overlay the popup on the trigger so the selected item lines up with it, falling back to side placement when there is no room. */
+    alignItemWithTrigger?: boolean;
+
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
     forceMount?: boolean;
 }
 
@@ -1008,13 +1020,16 @@ function MultiSelectContent({
     alignOffset = 0,
     sideOffset = 4,
 
-    sticky = "partial",
-
-    avoidCollisions = true,
-    collisionBoundary = [],
+    sticky = false,
+    collisionAvoidance,
+    collisionBoundary = "clipping-ancestors",
     collisionPadding = 8,
 
-    hideWhenDetached = false,
+    alignItemWithTrigger = false,
+
+    hideWhenDetached = "none",
+    onAnchorHiddenChange,
+    onEscapedChange,
     forceMount = false,
 
     className,
@@ -1022,7 +1037,7 @@ function MultiSelectContent({
 
     ...props
 }: MultiSelectContentProps) {
-    const { open, setOpen, triggerRef, contentRef, viewportRef, scrollRequestRef, scrollTrigger, state, dispatch } = useMultiSelectContext();
+    const { open, setOpen, value, dir, triggerRef, contentRef, viewportRef, scrollRequestRef, scrollTrigger, state, dispatch } = useMultiSelectContext();
 
     const [hasCollected, setHasCollected] = useState(false);
     const isCollectionPass = !hasCollected && !open;
@@ -1036,22 +1051,45 @@ function MultiSelectContent({
         actualSide,
         maxHeight,
         isPositioned,
-        isReferenceHidden
+        isReferenceHidden,
+        isEscaped,
+        isHidden,
     } = usePosition({
         relativeTo: triggerRef,
         target: contentRef,
         isTargetRendered: isMounted,
+        dir,
         side,
         align,
         sideOffset,
         alignOffset,
-        avoidCollisions,
+        collisionAvoidance,
         collisionBoundary,
         collisionPadding,
         sticky,
         hideWhenDetached,
+        onAnchorHiddenChange,
+        onEscapedChange,
+        onClose: () => setOpen(false),
     });
 
+    const itemAligned = useItemAlignedPosition({
+        enabled: alignItemWithTrigger && open,
+        isTargetRendered: isMounted && !isCollectionPass,
+        trigger: triggerRef,
+        target: contentRef,
+        scroller: viewportRef,
+        getAlignedItem: () => {
+            // The trigger shows chips rather than a single value, so the first selected item is lined up with the trigger itself.
+            const entry = state.items.find(item => value.includes(item.value)) ?? state.items[0];
+            return entry?.element ? { item: entry.element } : null;
+        },
+    });
+
+    const contentTop = itemAligned.isActive ? itemAligned.top : top;
+    const contentLeft = itemAligned.isActive ? itemAligned.left : left;
+    const isContentPositioned = itemAligned.isActive ? itemAligned.isPositioned : isPositioned;
+
     useLayoutEffect(() => {
         if (!open || !isPositioned) return;
 
@@ -1061,6 +1099,13 @@ function MultiSelectContent({
         const lastProcessed = lastProcessedRef.current;
         if (scrollTrigger === lastProcessed.trigger && lastProcessed.positioned) return;
 
+        // Item alignment already scrolled the aligned item into place when opening.
+        if (itemAligned.isActive && !lastProcessed.positioned) {
+            lastProcessedRef.current = { trigger: scrollTrigger, positioned: true }
+            scrollRequestRef.current = { type: 'none', targetIndex: -1 }
+            return;
+        }
+
         const viewport = viewportRef.current;
         if (!viewport) return;
 
@@ -1087,7 +1132,7 @@ function MultiSelectContent({
         }
 
         scrollRequestRef.current = { type: 'none', targetIndex: -1 }
-    }, [open, isPositioned, scrollTrigger, state.items, scrollRequestRef, viewportRef]);
+    }, [open, isPositioned, itemAligned.isActive, scrollTrigger, state.items, scrollRequestRef, viewportRef]);
 
     useEffect(() => {
         if (!open) lastProcessedRef.current = { trigger: 0, positioned: false }
@@ -1183,6 +1228,9 @@ function MultiSelectContent({
             data-ui="multi-select-content"
             data-state={open ? "open" : "closed"}
             data-side={actualSide}
+            data-anchor-hidden={isReferenceHidden ? "" : undefined}
+            data-escaped={isEscaped ? "" : undefined}
+            data-align-mode={itemAligned.isActive ? "item" : undefined}
 
             role="listbox"
             aria-multiselectable="true"
@@ -1194,13 +1242,13 @@ function MultiSelectContent({
 
             style={{
                 position: 'fixed',
-                top: isCollectionPass ? '-9999px' : `${top}px`,
-                left: isCollectionPass ? '-9999px' : `${left}px`,
+                top: isCollectionPass ? '-9999px' : `${contentTop}px`,
+                left: isCollectionPass ? '-9999px' : `${contentLeft}px`,
                 zIndex: 50,
                 maxHeight: maxHeight ? `${maxHeight}px` : undefined,
                 display: 'flex',
                 flexDirection: 'column',
-                visibility: isCollectionPass ? 'hidden' : (isPositioned && !isReferenceHidden ? "visible" : "hidden"),
+                visibility: isCollectionPass ? 'hidden' : (isContentPositioned && !isHidden ? "visible" : "hidden"),
                 pointerEvents: isCollectionPass ? 'none' : 'auto',
                 opacity: isCollectionPass ? 0 : undefined,
             }}
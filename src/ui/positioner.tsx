@@ -1,6 +1,8 @@
 import {
+    createContext,
     forwardRef,
     useCallback,
+    useContext,
     useEffect,
     useRef,
     useState,
@@ -9,17 +11,60 @@ import {
     type RefObject,
 } from "react";
 
-// ---------------------------------------------------------------------------------------------------- //
-
-export interface Size { width: number; height: number }
-
-export interface VirtualElement {
-    getBoundingClientRect(): DOMRect;
-    contextElement?: Element;
-}
+import {
+    autoUpdate as autoUpdatePosition,
+    computePosition,
+    getMatchedSize,
+    isVirtualElement,
+    measureNaturalSize,
+    DEFAULT_ALIGN,
+    DEFAULT_ALIGN_OFFSET,
+    DEFAULT_ARROW_PADDING,
+    DEFAULT_COLLISION_AVOIDANCE,
+    DEFAULT_COLLISION_BOUNDARY,
+    DEFAULT_COLLISION_PADDING,
+    DEFAULT_POSITION_METHOD,
+    DEFAULT_SIDE,
+    DEFAULT_SIDE_OFFSET,
+    DEFAULT_STICKY,
+    type Align,
+    type ArrowResult,
+    type AutoUpdateOptions,
+    type CollisionAvoidance,
+    type CollisionBoundary,
+    type Direction,
+    type HideWhenDetached,
+    type MatchAnchorWidth,
+    type Middleware,
+    type OffsetFunction,
+    type Padding,
+    type PhysicalSide,
+    type PositionResult,
+    type Side,
+    type Size,
+    type VirtualElement,
+} from "@/compute-position";
+
+export type {
+    Align,
+    AutoUpdateOptions,
+    CollisionAvoidance,
+    CollisionBoundary,
+    Direction,
+    HideWhenDetached,
+    MatchAnchorWidth,
+    Middleware,
+    MiddlewareState,
+    OffsetFunction,
+    Padding,
+    PhysicalSide,
+    Rect,
+    Side,
+    Size,
+    VirtualElement,
+} from "@/compute-position";
 
-interface OffsetFunctionData { side: PhysicalSide; align: Align; anchor: Size; positioner: Size }
-export type OffsetFunction = (data: OffsetFunctionData) => number;
+// ---------------------------------------------------------------------------------------------------- //
 
 export type Anchor =
     | Element
@@ -29,52 +74,12 @@ export type Anchor =
     | null
     | undefined;
 
-export type Side =
-    | "top"
-    | "bottom"
-    | "left"
-    | "right"
-    | "inline-end"
-    | "inline-start";
-
-export type PhysicalSide = "top" | "bottom" | "left" | "right";
-
-export type Align = "start" | "center" | "end";
-
-export interface Rect {
-    top: number;
-    right: number;
-    bottom: number;
-    left: number;
-}
-
-export type CollisionBoundary =
-    | "clipping-ancestors"
-    | Element
-    | Element[]
-    | Rect;
-
-export type CollisionAvoidance =
-    | {
-        side?: "flip" | "none";
-        align?: "flip" | "shift" | "none";
-        fallbackAxisSide?: "start" | "end" | "none";
-    }
-    | {
-        side?: "shift" | "none";
-        align?: "shift" | "none";
-        fallbackAxisSide?: "start" | "end" | "none";
-    }
-
-export type Padding =
-    | number
-    | { top?: number; right?: number; bottom?: number; left?: number }
-
 // ---------------------------------------------------------------------------------------------------- //
 
 export interface PositionerProps {
     anchor?: Anchor;
     enabled?: boolean;
+    dir?: Direction;
 
     side?: Side;
     sideOffset?: number | OffsetFunction;
@@ -87,7 +92,21 @@ export interface PositionerProps {
 
     sticky?: boolean;
     positionMethod?: "fixed" | "absolute";
+
+    matchAnchorWidth?: MatchAnchorWidth;
+    constrainSize?: boolean;
+
     disableAnchorTracking?: boolean;
+    autoUpdate?: boolean | AutoUpdateOptions;
+
+    hideWhenDetached?: HideWhenDetached;
+    onAnchorHiddenChange?: (hidden: boolean) => void;
+    onEscapedChange?: (escaped: boolean) => void;
+    /** Called when the anchor becomes hidden and `hideWhenDetached` is `"close"`. */
+    onClose?: () => void;
+
+    arrowPadding?: number;
+    middleware?: Middleware[];
 
     children?: ReactNode;
     className?: string;
@@ -97,37 +116,6 @@ export interface PositionerProps {
 
 // ---------------------------------------------------------------------------------------------------- //
 
-interface NormalizedPadding {
-    top: number;
-    right: number;
-    bottom: number;
-    left: number;
-}
-
-interface PositionResult {
-    x: number;
-    y: number;
-    actualSide: PhysicalSide;
-    actualAlign: Align;
-    anchorHidden: boolean;
-    anchorWidth: number;
-    anchorHeight: number;
-    availableWidth: number;
-    availableHeight: number;
-    transformOrigin: string;
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function isVirtualElement(value: unknown): value is VirtualElement {
-    return (
-        typeof value === "object" &&
-        value !== null &&
-        "getBoundingClientRect" in value &&
-        !("nodeType" in value)
-    );
-}
-
 function resolveAnchor(anchor: Anchor): Element | VirtualElement | null {
     if (!anchor) return null;
     if (typeof anchor === "function") return anchor();
@@ -135,562 +123,21 @@ function resolveAnchor(anchor: Anchor): Element | VirtualElement | null {
     return anchor;
 }
 
-function getAnchorRect(anchor: Element | VirtualElement): DOMRect {
-    return anchor.getBoundingClientRect();
-}
-
-function getContextElement(anchor: Element | VirtualElement): Element | null {
-    if (isVirtualElement(anchor)) return anchor.contextElement ?? null;
-    return anchor;
-}
-
 // ---------------------------------------------------------------------------------------------------- //
 
-function resolveLogicalSide(side: Side): PhysicalSide {
-    if (side === "inline-start" || side === "inline-end") {
-        const dir =
-            document.documentElement.dir ||
-            getComputedStyle(document.documentElement).direction ||
-            "ltr";
-        const isRtl = dir === "rtl";
-        if (side === "inline-start") return isRtl ? "right" : "left";
-        return isRtl ? "left" : "right";
-    }
-    return side;
+interface PositionerContextState {
+    side: PhysicalSide | null;
+    align: Align | null;
+    arrow: ArrowResult | null;
+    setArrowElement: (element: HTMLElement | null) => void;
 }
 
-// ---------------------------------------------------------------------------------------------------- //
-
-function normalizePadding(padding: Padding): NormalizedPadding {
-    if (typeof padding === "number")
-        return { top: padding, right: padding, bottom: padding, left: padding }
+const PositionerContext = createContext<PositionerContextState | null>(null);
 
-    return {
-        top: padding.top ?? 0,
-        right: padding.right ?? 0,
-        bottom: padding.bottom ?? 0,
-        left: padding.left ?? 0,
-    }
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function getClippingAncestors(element: Element): Element[] {
-    const ancestors: Element[] = [];
-    let current: Element | null = element.parentElement;
-
-    while (current && current !== document.documentElement) {
-        const style = getComputedStyle(current);
-        const overflow = style.overflow + style.overflowX + style.overflowY;
-        if (/auto|scroll|hidden|clip/.test(overflow)) ancestors.push(current);
-
-        current = current.parentElement;
-    }
-
-    return ancestors;
-}
-
-function getCollisionRect(
-    boundary: CollisionBoundary | null | undefined,
-    contextElement: Element | null
-): Rect {
-    const viewport: Rect = {
-        top: 0,
-        left: 0,
-        right: window.innerWidth,
-        bottom: window.innerHeight,
-    }
-
-    if (!boundary) return viewport;
-
-    if (boundary === "clipping-ancestors") {
-        if (!contextElement) return viewport;
-
-        const ancestors = getClippingAncestors(contextElement);
-        if (ancestors.length === 0) return viewport;
-
-        return ancestors.reduce<Rect>((acc, el) => {
-            const rect = el.getBoundingClientRect();
-
-            return {
-                top: Math.max(acc.top, rect.top),
-                left: Math.max(acc.left, rect.left),
-                right: Math.min(acc.right, rect.right),
-                bottom: Math.min(acc.bottom, rect.bottom),
-            }
-        }, viewport);
-    }
-
-    if (boundary instanceof Element) {
-        const rect = boundary.getBoundingClientRect();
-
-        return {
-            top: Math.max(viewport.top, rect.top),
-            left: Math.max(viewport.left, rect.left),
-            right: Math.min(viewport.right, rect.right),
-            bottom: Math.min(viewport.bottom, rect.bottom),
-        }
-    }
-
-    if (Array.isArray(boundary)) {
-        if (boundary.length === 0) return viewport;
-
-        return boundary.reduce<Rect>((acc, el) => {
-            const rect = el.getBoundingClientRect();
-
-            return {
-                top: Math.max(acc.top, rect.top),
-                left: Math.max(acc.left, rect.left),
-                right: Math.min(acc.right, rect.right),
-                bottom: Math.min(acc.bottom, rect.bottom),
-            }
-        }, viewport);
-    }
-
-    return boundary;
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function resolveOffset(
-    offset: number | OffsetFunction,
-    data: Parameters<OffsetFunction>[0]
-): number {
-    if (typeof offset === "function") return offset(data);
-    return offset;
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function getBasePosition(
-    anchorRect: DOMRect,
-    floatingSize: { width: number; height: number },
-    side: PhysicalSide,
-    sideOffset: number
-): { x: number; y: number } {
-    switch (side) {
-        case "bottom": return { x: anchorRect.left, y: anchorRect.bottom + sideOffset }
-        case "top": return { x: anchorRect.left, y: anchorRect.top - floatingSize.height - sideOffset }
-        case "right": return { x: anchorRect.right + sideOffset, y: anchorRect.top }
-        case "left": return { x: anchorRect.left - floatingSize.width - sideOffset, y: anchorRect.top }
-    }
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function applyAlignment(
-    pos: { x: number; y: number },
-    anchorRect: DOMRect,
-    floatingSize: { width: number; height: number },
-    side: PhysicalSide,
-    align: Align,
-    alignOffset: number
-): { x: number; y: number } {
-    const vertical =
-        side === "top" ||
-        side === "bottom";
-
-    if (vertical) switch (align) {
-        case "start": return { ...pos, x: anchorRect.left + alignOffset }
-        case "center": return { ...pos, x: anchorRect.left + anchorRect.width / 2 - floatingSize.width / 2 + alignOffset }
-        case "end": return { ...pos, x: anchorRect.right - floatingSize.width + alignOffset }
-        default: return pos;
-    }
-
-    else switch (align) {
-        case "start": return { ...pos, y: anchorRect.top + alignOffset }
-        case "center": return { ...pos, y: anchorRect.top + anchorRect.height / 2 - floatingSize.height / 2 + alignOffset }
-        case "end": return { ...pos, y: anchorRect.bottom - floatingSize.height + alignOffset }
-        default: return pos;
-    }
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function getOverflow(
-    pos: { x: number; y: number },
-    floatingSize: { width: number; height: number },
-    collisionRect: Rect,
-    padding: NormalizedPadding
-): NormalizedPadding {
-    return {
-        top: Math.max(collisionRect.top + padding.top - pos.y, 0),
-        bottom: Math.max(pos.y + floatingSize.height - (collisionRect.bottom - padding.bottom), 0),
-        left: Math.max(collisionRect.left + padding.left - pos.x, 0),
-        right: Math.max(pos.x + floatingSize.width - (collisionRect.right - padding.right), 0),
-    }
-}
-
-function getOppositeSide(side: PhysicalSide): PhysicalSide {
-    switch (side) {
-        case "top": return "bottom";
-        case "bottom": return "top";
-        case "left": return "right";
-        case "right": return "left";
-    }
-}
-
-function getOppositeAlign(align: Align): Align {
-    if (align === "start") return "end";
-    if (align === "end") return "start";
-    return "center";
-}
-
-function getSideOverflow(overflow: NormalizedPadding, side: PhysicalSide): number {
-    switch (side) {
-        case "top": return overflow.top;
-        case "bottom": return overflow.bottom;
-        case "left": return overflow.left;
-        case "right": return overflow.right;
-    }
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function resolveCollision(
-    preferredSide: PhysicalSide,
-    anchorRect: DOMRect,
-    floatingSize: { width: number; height: number },
-    collisionRect: Rect,
-    padding: NormalizedPadding,
-    sideOffset: number,
-    align: Align,
-    alignOffset: number,
-    avoidance: CollisionAvoidance,
-    sticky: boolean
-): PhysicalSide {
-    const sideMode = avoidance.side ?? "flip";
-    if (sideMode === "none") return preferredSide;
-
-    const testPosition = (side: PhysicalSide) => {
-        const base = getBasePosition(anchorRect, floatingSize, side, sideOffset);
-        const aligned = applyAlignment(base, anchorRect, floatingSize, side, align, alignOffset);
-
-        const constrained = sticky
-            ? applySticky(aligned, floatingSize, collisionRect, padding, anchorRect, side)
-            : aligned;
-
-        return getSideOverflow(getOverflow(constrained, floatingSize, collisionRect, padding), side);
-    }
-
-    const preferredOverflow = testPosition(preferredSide);
-    if (preferredOverflow <= 0) return preferredSide;
-
-    if (sideMode === "flip") {
-        const opposite = getOppositeSide(preferredSide);
-        const oppositeOverflow = testPosition(opposite);
-
-        if (oppositeOverflow === 0) return opposite;
-
-        const fallback = (avoidance as { fallbackAxisSide?: string }).fallbackAxisSide;
-
-        if (fallback && fallback !== "none") {
-            const isVertical = preferredSide === "top" || preferredSide === "bottom";
-
-            const fallbackSide: PhysicalSide = isVertical
-                ? fallback === "start" ? "left" : "right"
-                : fallback === "start" ? "top" : "bottom";
-
-            const fallbackOverflow = testPosition(fallbackSide);
-            if (fallbackOverflow < preferredOverflow) return fallbackSide;
-        }
-
-        return preferredSide;
-    }
-
-    return preferredSide;
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function applySticky(
-    pos: { x: number; y: number },
-    floatingSize: { width: number; height: number },
-    collisionRect: Rect,
-    padding: NormalizedPadding,
-    anchorRect: DOMRect,
-    side: PhysicalSide
-): { x: number; y: number } {
-    const vertical =
-        side === "top" ||
-        side === "bottom";
-
-    if (vertical) {
-        const minX = collisionRect.left + padding.left;
-        const maxX = collisionRect.right - padding.right - floatingSize.width;
-
-        const anchorInBounds =
-            anchorRect.right > collisionRect.left + padding.left &&
-            anchorRect.left < collisionRect.right - padding.right;
-
-        const clampedX = anchorInBounds
-            ? Math.max(minX, Math.min(pos.x, maxX))
-            : pos.x;
-
-        return { ...pos, x: clampedX }
-    }
-
-    const minY = collisionRect.top + padding.top;
-    const maxY = collisionRect.bottom - padding.bottom - floatingSize.height;
-
-    const anchorInBounds =
-        anchorRect.bottom > collisionRect.top + padding.top &&
-        anchorRect.top < collisionRect.bottom - padding.bottom;
-
-    const clampedY = anchorInBounds
-        ? Math.max(minY, Math.min(pos.y, maxY))
-        : pos.y;
-
-    return { ...pos, y: clampedY }
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function applyShift(
-    pos: { x: number; y: number },
-    floatingSize: { width: number; height: number },
-    collisionRect: Rect,
-    padding: NormalizedPadding,
-    side: PhysicalSide,
-    avoidance: CollisionAvoidance
-): { x: number; y: number } {
-    const alignMode = avoidance.align ?? "shift";
-    if (alignMode === "none") return pos;
-
-    const vertical =
-        side === "top" ||
-        side === "bottom";
-
-    if (vertical) {
-        const minX = collisionRect.left + padding.left;
-        const maxX = collisionRect.right - padding.right - floatingSize.width;
-        return { ...pos, x: Math.max(minX, Math.min(pos.x, maxX)) }
-    }
-
-    const minY = collisionRect.top + padding.top;
-    const maxY = collisionRect.bottom - padding.bottom - floatingSize.height;
-    return { ...pos, y: Math.max(minY, Math.min(pos.y, maxY)) }
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function resolveAlignCollision(
-    pos: { x: number; y: number },
-    anchorRect: DOMRect,
-    floatingSize: { width: number; height: number },
-    collisionRect: Rect,
-    padding: NormalizedPadding,
-    side: PhysicalSide,
-    align: Align,
-    alignOffset: number,
-    avoidance: CollisionAvoidance
-): { x: number; y: number; actualAlign: Align } {
-    const alignMode = avoidance.align ?? "shift";
-
-    if (alignMode === "none") return { ...pos, actualAlign: align }
-
-    if (alignMode === "flip") {
-        const overflow = getOverflow(pos, floatingSize, collisionRect, padding);
-        const vertical = side === "top" || side === "bottom";
-
-        const hasOverflow = vertical
-            ? overflow.left > 0 || overflow.right > 0
-            : overflow.top > 0 || overflow.bottom > 0;
-
-        if (hasOverflow && align !== "center") {
-            const flippedAlign = getOppositeAlign(align);
-
-            const flippedPos = applyAlignment(
-                getBasePosition(anchorRect, floatingSize, side, 0),
-                anchorRect,
-                floatingSize,
-                side,
-                flippedAlign,
-                alignOffset
-            );
-
-            const flippedOverflow = getOverflow(flippedPos, floatingSize, collisionRect, padding);
-            const currentTotal = overflow.left + overflow.right + overflow.top + overflow.bottom;
-            const flippedTotal = flippedOverflow.left + flippedOverflow.right + flippedOverflow.top + flippedOverflow.bottom;
-            if (flippedTotal < currentTotal) return { ...flippedPos, actualAlign: flippedAlign }
-        }
-
-        return { ...pos, actualAlign: align }
-    }
-
-    const shifted = applyShift(pos, floatingSize, collisionRect, padding, side, avoidance);
-    return { ...shifted, actualAlign: align }
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function getAvailableDimensions(
-    anchorRect: DOMRect,
-    collisionRect: Rect,
-    padding: NormalizedPadding,
-    side: PhysicalSide
-): { availableWidth: number; availableHeight: number } {
-    const vertical = side === "top" || side === "bottom";
-
-    const availableHeight = vertical
-        ? side === "bottom"
-            ? collisionRect.bottom - padding.bottom - anchorRect.bottom
-            : anchorRect.top - collisionRect.top - padding.top
-        : collisionRect.bottom - padding.bottom - (collisionRect.top + padding.top);
-
-    const availableWidth = !vertical
-        ? side === "right"
-            ? collisionRect.right - padding.right - anchorRect.right
-            : anchorRect.left - collisionRect.left - padding.left
-        : collisionRect.right - padding.right - (collisionRect.left + padding.left);
-
-    return {
-        availableWidth: Math.max(availableWidth, 0),
-        availableHeight: Math.max(availableHeight, 0),
-    }
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function getTransformOrigin(side: PhysicalSide, align: Align): string {
-    switch (side) {
-        case "bottom": return align === "start" ? "top left" : align === "end" ? "top right" : "top center";
-        case "top": return align === "start" ? "bottom left" : align === "end" ? "bottom right" : "bottom center";
-        case "left": return align === "start" ? "top right" : align === "end" ? "bottom right" : "center right";
-        case "right": return align === "start" ? "top left" : align === "end" ? "bottom left" : "center left";
-    }
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function isAnchorHidden(anchorRect: DOMRect, collisionRect: Rect): boolean {
-    return (
-        anchorRect.bottom <= collisionRect.top ||
-        anchorRect.top >= collisionRect.bottom ||
-        anchorRect.right <= collisionRect.left ||
-        anchorRect.left >= collisionRect.right
-    );
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
-function getOffsetParentRect(el: HTMLElement): { x: number; y: number } {
-    const offsetParent = el.offsetParent;
-    if (!offsetParent) return { x: 0, y: 0 }
-
-    const rect = offsetParent.getBoundingClientRect();
-    const style = getComputedStyle(offsetParent);
-
-    return {
-        x: rect.left + parseFloat(style.borderLeftWidth || "0"),
-        y: rect.top + parseFloat(style.borderTopWidth || "0"),
-    }
-}
-
-function computePosition(
-    anchorEl: Element | VirtualElement,
-    floatingEl: HTMLElement,
-    options: {
-        side: Side;
-        sideOffset: number | OffsetFunction;
-        align: Align;
-        alignOffset: number | OffsetFunction;
-        collisionAvoidance: CollisionAvoidance;
-        collisionBoundary: CollisionBoundary | null | undefined;
-        collisionPadding: Padding;
-        sticky: boolean;
-        positionMethod: "fixed" | "absolute";
-        forceSide?: PhysicalSide;
-    }
-): PositionResult {
-    const anchorRect = getAnchorRect(anchorEl);
-    const contextEl = getContextElement(anchorEl);
-
-    const floatingRect = floatingEl.getBoundingClientRect();
-
-    const floatingSize = {
-        width: floatingRect.width || floatingEl.offsetWidth,
-        height: floatingRect.height || floatingEl.offsetHeight,
-    }
-
-    const offsetParentPos = options.positionMethod === "absolute"
-        ? getOffsetParentRect(floatingEl)
-        : { x: 0, y: 0 }
-
-    const physicalSide = resolveLogicalSide(options.side);
-    const padding = normalizePadding(options.collisionPadding);
-    const collisionRect = getCollisionRect(options.collisionBoundary, contextEl);
-
-    const offsetData = {
-        side: physicalSide,
-        align: options.align,
-        anchor: { width: anchorRect.width, height: anchorRect.height },
-        positioner: floatingSize,
-    }
-
-    const resolvedSideOffset = resolveOffset(options.sideOffset, offsetData);
-    const resolvedAlignOffset = resolveOffset(options.alignOffset, offsetData);
-
-    const actualSide = options.forceSide ?? resolveCollision(
-        physicalSide,
-        anchorRect,
-        floatingSize,
-        collisionRect,
-        padding,
-        resolvedSideOffset,
-        options.align,
-        resolvedAlignOffset,
-        options.collisionAvoidance,
-        options.sticky
-    );
-
-    const basePos = getBasePosition(anchorRect, floatingSize, actualSide, resolvedSideOffset);
-
-    const alignedPos = applyAlignment(
-        basePos,
-        anchorRect,
-        floatingSize,
-        actualSide,
-        options.align,
-        resolvedAlignOffset
-    );
-
-    const stickyPos =
-        options.sticky
-            ? applySticky(alignedPos, floatingSize, collisionRect, padding, anchorRect, actualSide)
-            : alignedPos;
-
-    const { x, y, actualAlign } = resolveAlignCollision(
-        stickyPos,
-        anchorRect,
-        floatingSize,
-        collisionRect,
-        padding,
-        actualSide,
-        options.align,
-        resolvedAlignOffset,
-        options.collisionAvoidance
-    );
-
-    const { availableWidth, availableHeight } = getAvailableDimensions(
-        anchorRect,
-        collisionRect,
-        padding,
-        actualSide
-    );
-
-    return {
-        x: x - offsetParentPos.x,
-        y: y - offsetParentPos.y,
-        actualSide,
-        actualAlign,
-        anchorHidden: isAnchorHidden(anchorRect, collisionRect),
-        anchorWidth: anchorRect.width,
-        anchorHeight: anchorRect.height,
-        availableWidth,
-        availableHeight,
-        transformOrigin: getTransformOrigin(actualSide, actualAlign),
-    }
+function usePositionerContext(): PositionerContextState {
+    const context = useContext(PositionerContext);
+    if (!context) throw new Error("usePositionerContext must be used within a <Positioner> component");
+    return context;
 }
 
 // ---------------------------------------------------------------------------------------------------- //
@@ -700,19 +147,33 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
         {
             anchor,
             enabled = true,
+            dir,
+
+            side = DEFAULT_SIDE,
+            sideOffset = DEFAULT_SIDE_OFFSET,
+            align = DEFAULT_ALIGN,
+            alignOffset = DEFAULT_ALIGN_OFFSET,
+
+            collisionAvoidance = DEFAULT_COLLISION_AVOIDANCE,
+            collisionBoundary = DEFAULT_COLLISION_BOUNDARY,
+            collisionPadding = DEFAULT_COLLISION_PADDING,
 
-            side = "bottom",
-            sideOffset = 4,
-            align = "start",
-            alignOffset = 0,
+            sticky = DEFAULT_STICKY,
+            positionMethod = DEFAULT_POSITION_METHOD,
 
-            collisionAvoidance = { side: "flip", align: "shift" },
-            collisionBoundary = "clipping-ancestors",
-            collisionPadding = 8,
+            matchAnchorWidth = "none",
+            constrainSize = false,
 
-            sticky = false,
-            positionMethod = "fixed",
             disableAnchorTracking = false,
+            autoUpdate = false,
+
+            hideWhenDetached = "none",
+            onAnchorHiddenChange,
+            onEscapedChange,
+            onClose,
+
+            arrowPadding = DEFAULT_ARROW_PADDING,
+            middleware,
 
             children,
             className,
@@ -724,11 +185,28 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
         const [result, setResult] = useState<PositionResult | null>(null);
 
         const floatingRef = useRef<HTMLDivElement | null>(null);
+        const arrowRef = useRef<HTMLElement | null>(null);
         const resolvedSideRef = useRef<PhysicalSide | null>(null);
+        const naturalSizeRef = useRef<Size | null>(null);
+        const reportedRef = useRef({ anchorHidden: false, escaped: false });
+
+        const callbacksRef = useRef({ onAnchorHiddenChange, onEscapedChange, onClose });
+        callbacksRef.current = { onAnchorHiddenChange, onEscapedChange, onClose }
+
+        const isAutoUpdating = autoUpdate !== false;
+
+        const {
+            ancestorScroll = true,
+            ancestorResize = true,
+            elementResize = true,
+            layoutShift = true,
+            animationFrame = false,
+        } = typeof autoUpdate === "object" ? autoUpdate : {};
 
         const optionsRef = useRef({
             anchor,
             enabled,
+            dir,
             side,
             sideOffset,
             align,
@@ -738,11 +216,16 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
             collisionPadding,
             sticky,
             positionMethod,
+            matchAnchorWidth,
+            constrainSize,
+            arrowPadding,
+            middleware,
         });
 
         optionsRef.current = {
             anchor,
             enabled,
+            dir,
             side,
             sideOffset,
             align,
@@ -752,8 +235,28 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
             collisionPadding,
             sticky,
             positionMethod,
+            matchAnchorWidth,
+            constrainSize,
+            arrowPadding,
+            middleware,
         }
 
+        // Size matching and constraints make the rendered size differ from the natural one, so side
+        // selection is done with the natural content size, widened to the anchor when requested.
+        const getFloatingSize = useCallback((
+            floating: HTMLElement,
+            resolved: Element | VirtualElement,
+            remeasure: boolean
+        ): Size | undefined => {
+            const opts = optionsRef.current;
+            if (!opts.constrainSize && opts.matchAnchorWidth === "none") return undefined;
+
+            if (remeasure || !naturalSizeRef.current) naturalSizeRef.current = measureNaturalSize(floating);
+
+            const anchorWidth = resolved.getBoundingClientRect().width;
+            return getMatchedSize(naturalSizeRef.current, anchorWidth, opts.matchAnchorWidth);
+        }, []);
+
         const updateFull = useCallback(() => {
             const floating = floatingRef.current;
             const opts = optionsRef.current;
@@ -762,7 +265,10 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
             const resolved = resolveAnchor(opts.anchor);
             if (!resolved) return;
 
+            const floatingSize = getFloatingSize(floating, resolved, true);
+
             const pos = computePosition(resolved, floating, {
+                dir: opts.dir,
                 side: opts.side,
                 sideOffset: opts.sideOffset,
                 align: opts.align,
@@ -772,11 +278,15 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
                 collisionPadding: opts.collisionPadding,
                 sticky: opts.sticky,
                 positionMethod: opts.positionMethod,
+                middleware: opts.middleware,
+                constrainSize: opts.constrainSize,
+                floatingSize,
+                arrow: arrowRef.current ? { element: arrowRef.current, padding: opts.arrowPadding } : null,
             });
 
             resolvedSideRef.current = pos.actualSide;
             setResult(pos);
-        }, []);
+        }, [getFloatingSize]);
 
         const updateScroll = useCallback(() => {
             const floating = floatingRef.current;
@@ -786,7 +296,10 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
             const resolved = resolveAnchor(opts.anchor);
             if (!resolved) return;
 
+            const floatingSize = getFloatingSize(floating, resolved, false);
+
             const pos = computePosition(resolved, floating, {
+                dir: opts.dir,
                 side: opts.side,
                 sideOffset: opts.sideOffset,
                 align: opts.align,
@@ -796,15 +309,20 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
                 collisionPadding: opts.collisionPadding,
                 sticky: opts.sticky,
                 positionMethod: opts.positionMethod,
+                middleware: opts.middleware,
+                constrainSize: opts.constrainSize,
+                floatingSize,
+                arrow: arrowRef.current ? { element: arrowRef.current, padding: opts.arrowPadding } : null,
                 forceSide: resolvedSideRef.current ?? undefined,
             });
 
             setResult(pos);
-        }, []);
+        }, [getFloatingSize]);
 
         useEffect(() => {
             if (!enabled) {
                 resolvedSideRef.current = null;
+                naturalSizeRef.current = null;
                 setResult(null);
                 return;
             }
@@ -814,23 +332,82 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
 
             updateFull();
 
+            // In auto-update mode the floating element is observed together with the anchor.
+            if (isAutoUpdating) return;
+
             const observer = new ResizeObserver(() => updateFull());
             observer.observe(floating);
 
             return () => observer.disconnect();
-        }, [enabled, updateFull, side, sideOffset, align, alignOffset, sticky]);
+        }, [enabled, isAutoUpdating, updateFull, side, sideOffset, align, alignOffset, dir, sticky, matchAnchorWidth, constrainSize, arrowPadding]);
 
         useEffect(() => {
-            if (!enabled || disableAnchorTracking) return;
+            if (!enabled || disableAnchorTracking || isAutoUpdating) return;
+
+            const resolved = resolveAnchor(anchor);
+            const unsubscribe = isVirtualElement(resolved) ? resolved.subscribe?.(updateScroll) : undefined;
 
             window.addEventListener("scroll", updateScroll, { capture: true, passive: true });
             window.addEventListener("resize", updateScroll, { passive: true });
 
             return () => {
+                unsubscribe?.();
                 window.removeEventListener("scroll", updateScroll, true);
                 window.removeEventListener("resize", updateScroll);
             }
-        }, [enabled, disableAnchorTracking, updateScroll]);
+        }, [enabled, anchor, disableAnchorTracking, isAutoUpdating, updateScroll]);
+
+        useEffect(() => {
+            if (!enabled || !isAutoUpdating) return;
+
+            const floating = floatingRef.current;
+            const resolved = resolveAnchor(anchor);
+            if (!floating || !resolved) return;
+
+            // Size changes may require a different side; movement alone keeps the current one.
+            return autoUpdatePosition(
+                resolved,
+                floating,
+                (reason) => reason === "resize" ? updateFull() : updateScroll(),
+                {
+                    ancestorScroll: ancestorScroll && !disableAnchorTracking,
+                    ancestorResize,
+                    elementResize,
+                    layoutShift: layoutShift && !disableAnchorTracking,
+                    animationFrame: animationFrame && !disableAnchorTracking,
+                }
+            );
+        }, [
+            enabled,
+            anchor,
+            isAutoUpdating,
+            disableAnchorTracking,
+            ancestorScroll,
+            ancestorResize,
+            elementResize,
+            layoutShift,
+            animationFrame,
+            updateFull,
+            updateScroll,
+        ]);
+
+        const anchorHidden = result?.anchorHidden ?? false;
+        const escaped = result?.escaped ?? false;
+
+        useEffect(() => {
+            if (reportedRef.current.anchorHidden === anchorHidden) return;
+            reportedRef.current.anchorHidden = anchorHidden;
+
+            callbacksRef.current.onAnchorHiddenChange?.(anchorHidden);
+            if (anchorHidden && hideWhenDetached === "close") callbacksRef.current.onClose?.();
+        }, [anchorHidden, hideWhenDetached]);
+
+        useEffect(() => {
+            if (reportedRef.current.escaped === escaped) return;
+            reportedRef.current.escaped = escaped;
+
+            callbacksRef.current.onEscapedChange?.(escaped);
+        }, [escaped]);
 
         const setRefs = useCallback((node: HTMLDivElement | null) => {
             floatingRef.current = node;
@@ -839,7 +416,27 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
             else if (ref) ref.current = node;
         }, [ref]);
 
+        const setArrowElement = useCallback((element: HTMLElement | null) => {
+            arrowRef.current = element;
+            updateFull();
+        }, [updateFull]);
+
+        const context: PositionerContextState = {
+            side: result?.actualSide ?? null,
+            align: result?.actualAlign ?? null,
+            arrow: result?.arrow ?? null,
+            setArrowElement,
+        }
+
         const isPositioned = result !== null;
+        const isHidden = hideWhenDetached === "hide" && anchorHidden;
+
+        const sizeStyle: CSSProperties = {
+            width: result && matchAnchorWidth === "exact" ? `${result.anchorWidth}px` : undefined,
+            minWidth: result && matchAnchorWidth === "min" ? `${result.anchorWidth}px` : undefined,
+            maxWidth: result?.maxWidth != null ? `${result.maxWidth}px` : undefined,
+            maxHeight: result?.maxHeight != null ? `${result.maxHeight}px` : undefined,
+        }
 
         const positionStyle: CSSProperties = result
 
@@ -852,6 +449,8 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
                 ["--available-width" as string]: `${result.availableWidth}px`,
                 ["--available-height" as string]: `${result.availableHeight}px`,
                 ["--transform-origin" as string]: result.transformOrigin,
+                ["--arrow-x" as string]: result.arrow?.x != null ? `${result.arrow.x}px` : undefined,
+                ["--arrow-y" as string]: result.arrow?.y != null ? `${result.arrow.y}px` : undefined,
             }
 
             : {
@@ -869,16 +468,20 @@ const Positioner = forwardRef<HTMLDivElement, PositionerProps>(
                 data-closed={!enabled ? "" : undefined}
                 data-side={result?.actualSide}
                 data-align={result?.actualAlign}
-                data-anchor-hidden={result?.anchorHidden ? "" : undefined}
+                data-anchor-hidden={anchorHidden ? "" : undefined}
+                data-escaped={escaped ? "" : undefined}
 
                 style={{
                     ...positionStyle,
+                    ...sizeStyle,
                     zIndex,
-                    visibility: isPositioned ? "visible" : "hidden",
+                    visibility: isPositioned && !isHidden ? "visible" : "hidden",
                     ...style,
                 }}
             >
-                {children}
+                <PositionerContext.Provider value={context}>
+                    {children}
+                </PositionerContext.Provider>
             </div>
         );
     });
@@ -887,4 +490,49 @@ Positioner.displayName = "Positioner";
 
 // ---------------------------------------------------------------------------------------------------- //
 
-export { Positioner }
+export interface PositionerArrowProps {
+    className?: string;
+    style?: CSSProperties;
+    children?: ReactNode;
+}
+
+function PositionerArrow({ className, style, children }: PositionerArrowProps) {
+    const { side, arrow, setArrowElement } = usePositionerContext();
+
+    const arrowStyle: CSSProperties = side && arrow
+        ? {
+            position: "absolute",
+            left: arrow.x != null ? `${arrow.x}px` : undefined,
+            top: arrow.y != null ? `${arrow.y}px` : undefined,
+            // Sits just outside the popup edge that faces the anchor.
+            [side]: "100%",
+            visibility: arrow.uncentered ? "hidden" : undefined,
+        }
+        : {
+            position: "absolute",
+            visibility: "hidden",
+        }
+
+    return (
+        <div data-ui="positioner-arrow"
+            ref={setArrowElement}
+            className={className}
+
+            aria-hidden
+
+            data-side={side ?? undefined}
+            data-uncentered={arrow?.uncentered ? "" : undefined}
+
+            style={{
+                ...arrowStyle,
+                ...style,
+            }}
+        >
+            {children}
+        </div>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export { Positioner, PositionerArrow }
@@ -4,12 +4,15 @@ import {
     useContext,
     useEffect,
     useId,
+    Fragment,
+    useImperativeHandle,
     useLayoutEffect,
     useReducer,
     useRef,
     useState,
     useMemo,
     type HTMLAttributes,
+    type ChangeEvent,
     type KeyboardEvent,
     type ReactNode,
     type RefObject,
@@ -22,6 +25,11 @@ import { createPortal } from "react-dom";
 
 import { useControllableState } from "@/hooks/use-controllable-state";
 
+import {
+    canAlignItemWithTrigger,
+    computeItemAlignedPosition,
+} from "@/compute-position";
+
 import {
     Positioner,
     type Side,
@@ -46,13 +54,21 @@ const SelectActions = {
     PageDown: 8,
     Type: 9,
     FocusMove: 10,
+    PreviousRow: 11,
+    NextRow: 12,
 } as const;
 
 type SelectAction = typeof SelectActions[keyof typeof SelectActions];
 
+type SelectLayout = 'list' | 'grid';
+
+type SelectDirection = 'ltr' | 'rtl';
+
 const getSelectAction = (
     event: KeyboardEvent<HTMLButtonElement>,
-    open: boolean
+    open: boolean,
+    layout: SelectLayout = 'list',
+    dir: SelectDirection = 'ltr'
 ): SelectAction => {
     const { key, altKey, ctrlKey, metaKey } = event;
 
@@ -68,6 +84,14 @@ const getSelectAction = (
         key.length === 1 && key !== ' ' && !altKey && !ctrlKey && !metaKey
     ) return SelectActions.Type;
 
+    // In a grid the vertical arrows move between rows and the horizontal ones within a row.
+    if (open && layout === 'grid') switch (key) {
+        case 'ArrowUp': return altKey ? SelectActions.Select : SelectActions.PreviousRow;
+        case 'ArrowDown': return altKey ? SelectActions.None : SelectActions.NextRow;
+        case 'ArrowLeft': return dir === 'ltr' ? SelectActions.Previous : SelectActions.Next;
+        case 'ArrowRight': return dir === 'ltr' ? SelectActions.Next : SelectActions.Previous;
+    }
+
     if (open) switch (key) {
         case 'ArrowUp': return altKey ? SelectActions.Select : SelectActions.Previous;
         case 'ArrowDown': return altKey ? SelectActions.None : SelectActions.Next;
@@ -85,10 +109,66 @@ const getSelectAction = (
 
 interface SelectItemEntry {
     id: string;
-    value: string;
+    value: unknown;
     textValue: string;
     disabled: boolean;
     element: HTMLElement | null;
+    /** Enclosing `SelectGroup`, kept so the native fallback can rebuild it as an `<optgroup>`. */
+    group: { id: string; label: string } | null;
+}
+
+// First enabled item from `from` in the direction of `step`; disabled items are listed but never highlighted.
+function findEnabledIndex(items: SelectItemEntry[], from: number, step: 1 | -1): number {
+    for (let index = from; index >= 0 && index < items.length; index += step)
+        if (!items[index].disabled) return index;
+
+    return -1;
+}
+
+interface SelectGridCell {
+    row: number;
+    col: number;
+}
+
+// Rows of a grid layout; every group starts on a new row, matching the group spanning the full width.
+function getGridCells(items: SelectItemEntry[], columns: number): SelectGridCell[] {
+    const cells: SelectGridCell[] = [];
+
+    let row = -1;
+    let col = columns;
+    let groupId: string | null | undefined = undefined;
+
+    for (const item of items) {
+        const itemGroupId = item.group?.id ?? null;
+
+        if (itemGroupId !== groupId || col >= columns) {
+            row++;
+            col = 0;
+            groupId = itemGroupId;
+        }
+
+        cells.push({ row, col: col++ });
+    }
+
+    return cells;
+}
+
+// The enabled cell closest to `col` in `row`, or in the next row along `step` that has one.
+function findGridCellIndex(cells: SelectGridCell[], items: SelectItemEntry[], row: number, col: number, step: 1 | -1): number {
+    const lastRow = cells.length ? cells[cells.length - 1].row : -1;
+
+    for (let target = row; target >= 0 && target <= lastRow; target += step) {
+        let found = -1;
+
+        cells.forEach((cell, index) => {
+            if (cell.row !== target || items[index].disabled) return;
+            if (found < 0 || Math.abs(cell.col - col) < Math.abs(cells[found].col - col)) found = index;
+        });
+
+        if (found >= 0) return found;
+    }
+
+    return -1;
 }
 
 interface SelectState {
@@ -97,6 +177,8 @@ interface SelectState {
     items: SelectItemEntry[];
     typeaheadValue: string;
     typeaheadTimeout: number | null;
+    /** Everything typed since the list opened, for `SelectCreate`; unlike typeahead it never resets. Cleared on close. */
+    createValue: string;
     pendingCursorAction: 'first' | 'last' | 'default' | null;
 }
 
@@ -105,8 +187,11 @@ type SelectStateAction =
     | { type: 'SET_CURSOR'; payload: number }
     | { type: 'SET_PENDING_CURSOR_ACTION'; payload: 'first' | 'last' | 'default' | null }
     | { type: 'REGISTER_ITEM'; payload: SelectItemEntry }
+    | { type: 'SET_ITEMS'; payload: SelectItemEntry[] }
     | { type: 'UNREGISTER_ITEM'; payload: string }
     | { type: 'SET_TYPEAHEAD_VALUE'; payload: string }
+    | { type: 'SET_CREATE_VALUE'; payload: string }
+    | { type: 'APPEND_CREATE_VALUE'; payload: string }
     | { type: 'SET_TYPEAHEAD_TIMEOUT'; payload: number | null }
     | { type: 'CLEAR_TYPEAHEAD' }
 
@@ -122,24 +207,43 @@ function selectStateReducer(state: SelectState, action: SelectStateAction): Sele
             return { ...state, pendingCursorAction: action.payload }
 
         case 'REGISTER_ITEM': {
-            const filtered = state.items
+            const newItems = state.items
                 .filter(item => item.id !== action.payload.id);
 
-            const newItems = [...filtered, action.payload].sort((a, b) => {
-                if (!a.element || !b.element) return 0;
-                const position = a.element.compareDocumentPosition(b.element);
-                return position & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
-            });
+            // The list is kept in document order, so a binary search finds the slot without re-sorting everything.
+            const { element } = action.payload;
+            let low = 0;
+            let high = newItems.length;
+
+            while (low < high) {
+                const middle = (low + high) >> 1;
+                const other = newItems[middle].element;
+                const precedes = !!element && !!other && !!(other.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_PRECEDING);
+
+                if (precedes) high = middle;
+                else low = middle + 1;
+            }
+
+            newItems.splice(low, 0, action.payload);
 
             return { ...state, items: newItems }
         }
 
+        case 'SET_ITEMS':
+            return { ...state, items: action.payload }
+
         case 'UNREGISTER_ITEM':
             return { ...state, items: state.items.filter(item => item.id !== action.payload) }
 
         case 'SET_TYPEAHEAD_VALUE':
             return { ...state, typeaheadValue: action.payload }
 
+        case 'SET_CREATE_VALUE':
+            return { ...state, createValue: action.payload }
+
+        case 'APPEND_CREATE_VALUE':
+            return { ...state, createValue: state.createValue + action.payload }
+
         case 'SET_TYPEAHEAD_TIMEOUT':
             return { ...state, typeaheadTimeout: action.payload }
 
@@ -153,14 +257,88 @@ function selectStateReducer(state: SelectState, action: SelectStateAction): Sele
 
 // ---------------------------------------------------------------------------------------------------- //
 
+interface SelectItemData<V> {
+    label: ReactNode;
+    value: V;
+    disabled?: boolean;
+}
+
+interface SelectGroupData<V> {
+    label: ReactNode;
+    items: SelectItemData<V>[];
+}
+
+/** Either a `value → label` record or a list of items, optionally grouped. */
+type SelectItems<V> =
+    | Record<string, ReactNode>
+    | Array<SelectItemData<V> | SelectGroupData<V>>;
+
+const isGroupData = <V,>(entry: SelectItemData<V> | SelectGroupData<V>): entry is SelectGroupData<V> =>
+    'items' in entry;
+
+function normalizeItems<V>(items: SelectItems<V> | undefined): Array<SelectItemData<V> | SelectGroupData<V>> | null {
+    if (!items) return null;
+    if (Array.isArray(items)) return items;
+
+    return Object.entries(items).map(([value, label]) => ({ value: value as V, label }));
+}
+
+function findItemData<V>(
+    items: Array<SelectItemData<V> | SelectGroupData<V>> | null,
+    value: unknown,
+    isValueEqual: (itemValue: unknown, selectedValue: unknown) => boolean
+): SelectItemData<V> | undefined {
+    if (!items) return undefined;
+
+    for (const entry of items) {
+        const found = isGroupData(entry)
+            ? entry.items.find(item => isValueEqual(item.value, value))
+            : isValueEqual(entry.value, value) ? entry : undefined;
+
+        if (found) return found;
+    }
+
+    return undefined;
+}
+
+// Splits entries into runs that share a group, in list order, for rendering `<optgroup>`s.
+function groupEntries(items: SelectItemEntry[]): Array<{ group: SelectItemEntry['group']; items: SelectItemEntry[] }> {
+    const runs: Array<{ group: SelectItemEntry['group']; items: SelectItemEntry[] }> = [];
+
+    for (const item of items) {
+        const last = runs[runs.length - 1];
+        if (last && last.group?.id === item.group?.id) last.items.push(item);
+        else runs.push({ group: item.group, items: [item] });
+    }
+
+    return runs;
+}
+
+type SelectLoadStatus = 'idle' | 'loading' | 'loaded' | 'error';
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface SelectVirtualLayout {
+    itemHeight: number;
+    /** Offset of the item at `index` of `state.items` from the top of the viewport's scrollable content. */
+    getItemTop: (index: number) => number;
+}
+
 type ScrollRequestType = 'none' | 'center' | 'item-top' | 'ensure-visible' | 'edge-start' | 'edge-end';
 type ScrollRequest = { type: ScrollRequestType; targetIndex: number };
 
+// Values are typed by the `Select` generic at the public boundary and carried as `unknown` inside the context.
 interface SelectStableContextState {
-    setValue: (value: string) => void;
+    setValue: (value: unknown) => void;
     setOpen: (open: boolean) => void;
     dispatch: Dispatch<SelectStateAction>;
-    registerItemLabel: (itemValue: string, textValue: string) => void;
+    registerItemLabel: (itemValue: unknown, textValue: string) => void;
+    isValueEqual: (itemValue: unknown, selectedValue: unknown) => boolean;
+    getValueLabel: (value: unknown) => string | null;
+    getValueString: (value: unknown) => string;
+    /** Reads the text to screen readers through the Select's live region. */
+    announce: (text: string) => void;
+    createItem: (label: string) => void;
     triggerScroll: () => void;
 
     viewportRef: RefObject<HTMLDivElement | null>;
@@ -171,12 +349,44 @@ interface SelectStableContextState {
     selectedItemTextRef: RefObject<HTMLElement | null>;
     scrollRequestRef: RefObject<ScrollRequest>;
     alignItemWithTriggerActiveRef: RefObject<boolean>;
+
+    /** Geometry of a virtualized viewport, used to scroll to items that are not rendered. */
+    virtualLayoutRef: RefObject<SelectVirtualLayout | null>;
+
+    /** Items from the last time the list was mounted, so the closed trigger can still select them. */
+    knownItemsRef: RefObject<SelectItemEntry[]>;
+
+    /** Set by the mounted `SelectContent`; unmounts it while closed. */
+    unmountContentRef: RefObject<() => void>;
+    notifyOpenChangeComplete: (open: boolean) => void;
 }
 
 interface SelectReactiveContextState {
-    value: string;
+    value: unknown;
     open: boolean;
     disabled: boolean;
+    readOnly: boolean;
+    required: boolean;
+    layout: SelectLayout;
+    columns: number;
+    dir: SelectDirection | undefined;
+    /** Row and column of every item in `state.items` when `layout` is `"grid"`. */
+    gridCells: SelectGridCell[] | null;
+    /** The trigger is backed by a native `<select>` because `nativeOnTouch` is set and the pointer is coarse. */
+    isNative: boolean;
+    canCreate: boolean;
+    /** `onCreateItem` is pending; further creates are ignored until it settles. */
+    isCreating: boolean;
+    /** Message of the last rejected or thrown `onCreateItem`; cleared when the typed text changes. */
+    createError: string | null;
+    /** `loadItems` is set, so the viewport always renders the loaded items next to its children. */
+    hasItemLoader: boolean;
+    loadStatus: SelectLoadStatus;
+    loadError: unknown;
+    /** Result of the last constraint validation; `null` until the form has been validated. */
+    validity: 'valid' | 'invalid' | null;
+    /** Normalized `items` prop, used for closed-trigger labels and the auto-rendered list. */
+    items: Array<SelectItemData<unknown> | SelectGroupData<unknown>> | null;
     state: SelectState;
     activeDescendant: string | null;
     scrollTrigger: number;
@@ -205,55 +415,103 @@ function useSelectContext(): SelectContextState {
 
 // ---------------------------------------------------------------------------------------------------- //
 
-interface SelectProps<V> { // todo the V generic
-    name?: string; // todo
+interface SelectActionsRef<V> {
+    open: () => void;
+    close: () => void;
+    focus: () => void;
+    highlight: (value: V) => void;
+    scrollIntoView: (value: V) => void;
+    /** Unmounts the closed popup, for exit animations that are run outside CSS. */
+    unmount: () => void;
+}
+
+interface SelectProps<V> {
+    name?: string;
     id?: string; // todo
 
-    disabled?: boolean; // todo
-    required?: boolean; // todo
-    readOnly?: boolean; // todo
-    autoComplete?: string; // todo
+    disabled?: boolean;
+    required?: boolean;
+    readOnly?: boolean;
+    autoComplete?: string;
 
-    inputRef?: RefObject<HTMLInputElement | null>; // todo
+    /** Ref to the hidden input that carries the value in form submissions. */
+    inputRef?: RefObject<HTMLInputElement | null>;
 
-    isItemEqualToValue?: (itemValue: V, selectedValue: V) => boolean; // todo
-    itemToStringLabel?: (itemValue: V) => string; // todo
-    itemToStringValue?: (itemValue: V) => string; // todo
+    /** Compares an item's value with the selected value; defaults to `Object.is`. Needed when object values are recreated between renders. */
+    isItemEqualToValue?: (itemValue: V, selectedValue: V) => boolean;
+    /** Text shown by `SelectValue` for the selected value; defaults to the selected item's text. */
+    itemToStringLabel?: (itemValue: V) => string;
+    /** Serializes a value for form submission and autofill; defaults to `String`, or `JSON.stringify` for objects. */
+    itemToStringValue?: (itemValue: V) => string;
 
     highlightItemOnHover?: boolean; // todo
 
-    actionsRef?: RefObject<unknown | null>; // todo - we need to create imperative ref handling for unmount
+    /** On coarse-pointer devices, open the OS picker through a native `<select>` instead of the popup. */
+    nativeOnTouch?: boolean;
 
-    items?:
-    | Record<string, ReactNode>
-    | Array<{ label: ReactNode, value: any }> // todo
+    /** Turns the typed text into a new item from `SelectCreate`; the returned value is selected. */
+    onCreateItem?: (label: string) => V | Promise<V>;
 
-    value?: V;
-    defaultValue?: V;
-    onValueChange?: (value: string) => void;
+    /**
+     * `"grid"` lays items out in `columns` columns and moves between them with all four arrow keys.
+     * Each `SelectGroup` starts a new row and its label spans the full width.
+     */
+    layout?: SelectLayout;
+    columns?: number;
+    /** Reading direction, which mirrors ArrowLeft and ArrowRight in a grid; defaults to the trigger's computed direction. */
+    dir?: SelectDirection;
+
+    actionsRef?: RefObject<SelectActionsRef<V> | null>;
+
+    /** Item data for labelling the value before the list has mounted; a `SelectViewport` without children renders it. */
+    items?: SelectItems<V>;
+
+    /** Async item source; its result replaces `items` once resolved. The signal aborts when the popup closes mid-request. */
+    loadItems?: (signal: AbortSignal) => Promise<SelectItems<V>>;
+    /** Load on the first open (default) or as soon as the Select mounts. Failed loads are retried on the next open. */
+    loadItemsOn?: 'open' | 'mount';
+
+    value?: V | null;
+    defaultValue?: V | null;
+    onValueChange?: (value: V | null) => void;
 
     defaultOpen?: boolean;
     open?: boolean;
     onOpenChange?: (open: boolean) => void;
-    onOpenChangeComplete?: (open: boolean) => void; // todo
+    /** Called once the popup's open or exit animation has finished. */
+    onOpenChangeComplete?: (open: boolean) => void;
 
     children?: ReactNode;
 }
 
-function Select({
+const serializeValue = (value: unknown): string => typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+function Select<V = string>({
     defaultValue, onValueChange, value,
-    defaultOpen, onOpenChange, open,
+    defaultOpen, onOpenChange, onOpenChangeComplete, open,
+    actionsRef,
+    isItemEqualToValue, itemToStringLabel, itemToStringValue,
+    name, autoComplete, inputRef,
+    items,
+    loadItems, loadItemsOn = 'open',
+    layout = 'list',
+    columns = 1,
+    dir,
+    nativeOnTouch = false,
+    onCreateItem,
     disabled = false,
+    required = false,
+    readOnly = false,
     children,
-}: SelectProps) {
+}: SelectProps<V>) {
     const [scrollTrigger, setScrollTrigger] = useState(0);
 
     const triggerScroll = useCallback(() => {
         setScrollTrigger(prev => prev + 1);
     }, []);
 
-    const [valueState, setValue] = useControllableState({
-        defaultValue: defaultValue ?? '',
+    const [valueState, setValue] = useControllableState<V | null>({
+        defaultValue: defaultValue ?? null,
         onChange: onValueChange,
         value,
     });
@@ -270,6 +528,7 @@ function Select({
         items: [],
         typeaheadValue: '',
         typeaheadTimeout: null,
+        createValue: '',
         pendingCursorAction: null,
     }), []);
 
@@ -284,28 +543,219 @@ function Select({
 
     const scrollRequestRef = useRef<ScrollRequest>({ type: 'none', targetIndex: -1 });
     const alignItemWithTriggerActiveRef = useRef<boolean>(false);
+    const unmountContentRef = useRef<() => void>(() => { });
+
+    const virtualLayoutRef = useRef<SelectVirtualLayout | null>(null);
+
+    const knownItemsRef = useRef<SelectItemEntry[]>([]);
+    if (state.items.length > 0) knownItemsRef.current = state.items;
+
+    const onOpenChangeCompleteRef = useRef(onOpenChangeComplete);
+    onOpenChangeCompleteRef.current = onOpenChangeComplete;
+
+    const notifyOpenChangeComplete = useCallback((open: boolean) => {
+        onOpenChangeCompleteRef.current?.(open);
+    }, []);
+
+    const [loadedItems, setLoadedItems] = useState<SelectItems<V> | null>(null);
+    const [loadError, setLoadError] = useState<unknown>(null);
+    const [loadStatus, setLoadStatus] = useState<SelectLoadStatus>(
+        loadItems && loadItemsOn === 'mount' ? 'loading' : 'idle'
+    );
+
+    const loadItemsRef = useRef(loadItems);
+    loadItemsRef.current = loadItems;
 
+    const hasItemLoader = loadItems !== undefined;
+
+    useEffect(() => {
+        if (!hasItemLoader) return;
+
+        if (openState) setLoadStatus(status => status === 'idle' || status === 'error' ? 'loading' : status);
+        else if (loadItemsOn === 'open') setLoadStatus(status => status === 'loading' ? 'idle' : status);
+    }, [openState, hasItemLoader, loadItemsOn]);
+
+    // Leaving the loading status, by closing or unmounting, aborts the request.
+    useEffect(() => {
+        const load = loadItemsRef.current;
+        if (loadStatus !== 'loading' || !load) return;
+
+        const controller = new AbortController();
+
+        load(controller.signal).then(
+            (result) => {
+                if (controller.signal.aborted) return;
+                setLoadedItems(result);
+                setLoadStatus('loaded');
+            },
+            (error: unknown) => {
+                if (controller.signal.aborted) return;
+                setLoadError(error);
+                setLoadStatus('error');
+            }
+        );
+
+        return () => controller.abort();
+    }, [loadStatus]);
+
+    // Previously loaded items stay in place during a reload, so the selected label does not blank out.
+    const normalizedItems = useMemo(() => normalizeItems(loadedItems ?? items), [loadedItems, items]);
+
+    const hiddenInputRef = useRef<HTMLInputElement>(null);
+    const [validated, setValidated] = useState(false);
+
+    const [isCoarsePointer, setIsCoarsePointer] = useState(() => window.matchMedia('(pointer: coarse)').matches);
+
+    useEffect(() => {
+        if (!nativeOnTouch) return;
+
+        const query = window.matchMedia('(pointer: coarse)');
+        const handleChange = () => setIsCoarsePointer(query.matches);
+
+        handleChange();
+        query.addEventListener('change', handleChange);
+
+        return () => query.removeEventListener('change', handleChange);
+    }, [nativeOnTouch]);
+
+    const isNative = nativeOnTouch && isCoarsePointer;
+
+    const [announcement, setAnnouncement] = useState('');
+
+    const announce = useCallback((text: string) => {
+        setAnnouncement(text);
+    }, []);
+
+    const onCreateItemRef = useRef(onCreateItem);
+    onCreateItemRef.current = onCreateItem;
+
+    const [isCreating, setIsCreating] = useState(false);
+    const [createError, setCreateError] = useState<string | null>(null);
+    const isCreatingRef = useRef(false);
+
+    const createItem = useCallback((label: string) => {
+        const create = onCreateItemRef.current;
+        if (!create || isCreatingRef.current) return;
+
+        isCreatingRef.current = true;
+        setIsCreating(true);
+        setCreateError(null);
+
+        // Runs inside the chain so a synchronous throw is handled like a rejection.
+        Promise.resolve().then(() => create(label)).then((created) => {
+            setValue(created);
+            dispatch({ type: 'SET_TEXT_VALUE', payload: label });
+            dispatch({ type: 'SET_CREATE_VALUE', payload: '' });
+            setOpen(false);
+            announce(label);
+        }).catch((reason) => {
+            setCreateError(reason instanceof Error ? reason.message : String(reason));
+        }).finally(() => {
+            isCreatingRef.current = false;
+            setIsCreating(false);
+        });
+    }, [setValue, setOpen, announce]);
+
+    useEffect(() => {
+        setCreateError(null);
+    }, [state.createValue]);
+
+    const gridCells = useMemo(() => layout === 'grid' ? getGridCells(state.items, columns) : null, [layout, state.items, columns]);
 
     const activeDescendant = useMemo(() => {
         if (state.cursor < 0 || state.cursor >= state.items.length) return null;
         return state.items[state.cursor].id;
     }, [state.cursor, state.items]);
 
-    const registerItemLabelImpl = useCallback((itemValue: string, textValue: string) => {
-        if (itemValue === valueState && state.textValue === null)
+    const valueOptionsRef = useRef({ isItemEqualToValue, itemToStringLabel, itemToStringValue });
+    valueOptionsRef.current = { isItemEqualToValue, itemToStringLabel, itemToStringValue };
+
+    const isValueEqual = useCallback((itemValue: unknown, selectedValue: unknown) => {
+        if (selectedValue === null || selectedValue === undefined) return false;
+
+        const { isItemEqualToValue } = valueOptionsRef.current;
+        if (isItemEqualToValue) return isItemEqualToValue(itemValue as V, selectedValue as V);
+
+        return Object.is(itemValue, selectedValue);
+    }, []);
+
+    const getValueLabel = useCallback((value: unknown) => {
+        const { itemToStringLabel } = valueOptionsRef.current;
+        if (!itemToStringLabel || value === null || value === undefined) return null;
+
+        return itemToStringLabel(value as V);
+    }, []);
+
+    const getValueString = useCallback((value: unknown) => {
+        if (value === null || value === undefined) return '';
+
+        const { itemToStringValue } = valueOptionsRef.current;
+        return itemToStringValue ? itemToStringValue(value as V) : serializeValue(value);
+    }, []);
+
+    const serializedValue = getValueString(valueState);
+    const validity = validated ? (required && serializedValue === '' ? 'invalid' : 'valid') : null;
+
+    const registerItemLabelImpl = useCallback((itemValue: unknown, textValue: string) => {
+        if (isValueEqual(itemValue, valueState) && state.textValue === null)
             dispatch({ type: 'SET_TEXT_VALUE', payload: textValue });
-    }, [valueState, state.textValue, dispatch]);
+    }, [valueState, state.textValue, dispatch, isValueEqual]);
 
     const registerItemLabelRef = useRef(registerItemLabelImpl);
     registerItemLabelRef.current = registerItemLabelImpl;
 
-    const registerItemLabel = useCallback((itemValue: string, textValue: string) => {
+    const registerItemLabel = useCallback((itemValue: unknown, textValue: string) => {
         registerItemLabelRef.current(itemValue, textValue);
     }, []);
 
+    const resetImpl = useCallback(() => {
+        const initialValue = defaultValue ?? null;
+        const initialItem = state.items.find(item => isValueEqual(item.value, initialValue));
+
+        setValue(initialValue);
+        setValidated(false);
+        dispatch({ type: 'SET_TEXT_VALUE', payload: initialItem?.textValue ?? null });
+    }, [defaultValue, state.items, isValueEqual, setValue]);
+
+    const resetRef = useRef(resetImpl);
+    resetRef.current = resetImpl;
+
+    // `form.reset()` only restores native controls, so the value is put back by hand.
+    useEffect(() => {
+        const form = hiddenInputRef.current?.form;
+        if (!form) return;
+
+        const handleReset = () => resetRef.current();
+        form.addEventListener('reset', handleReset);
+
+        return () => form.removeEventListener('reset', handleReset);
+    }, []);
+
+    const setHiddenInputRef = useCallback((node: HTMLInputElement | null) => {
+        hiddenInputRef.current = node;
+        if (inputRef) inputRef.current = node;
+    }, [inputRef]);
+
+    // Browser autofill writes a serialized value into the hidden input; map it back to an item.
+    const hiddenInputChangeHandler = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+        if (disabled || readOnly) return;
+
+        const item = state.items.find(item => getValueString(item.value) === event.target.value);
+        if (!item || item.disabled) return;
+
+        setValue(item.value as V);
+        dispatch({ type: 'SET_TEXT_VALUE', payload: item.textValue });
+    }, [disabled, readOnly, state.items, getValueString, setValue]);
+
+    // Constraint validation and `reportValidity()` focus the first invalid control, which is the trigger here.
+    const hiddenInputFocusHandler = useCallback(() => {
+        triggerRef.current?.focus();
+    }, []);
+
     useEffect(() => {
         if (openState) return;
         dispatch({ type: 'CLEAR_TYPEAHEAD' });
+        dispatch({ type: 'SET_CREATE_VALUE', payload: '' });
         dispatch({ type: 'SET_PENDING_CURSOR_ACTION', payload: null });
     }, [openState]);
 
@@ -318,26 +768,26 @@ function Select({
 
         if (state.pendingCursorAction === 'first') {
             scrollRequestRef.current = { type: 'edge-start', targetIndex: 0 }
-            dispatch({ type: 'SET_CURSOR', payload: 0 });
+            dispatch({ type: 'SET_CURSOR', payload: findEnabledIndex(state.items, 0, 1) });
             triggerScroll();
         }
 
         else if (state.pendingCursorAction === 'last') {
             const lastIndex = state.items.length - 1;
             scrollRequestRef.current = { type: 'edge-end', targetIndex: lastIndex }
-            dispatch({ type: 'SET_CURSOR', payload: lastIndex });
+            dispatch({ type: 'SET_CURSOR', payload: findEnabledIndex(state.items, lastIndex, -1) });
             triggerScroll();
         }
 
         else if (state.pendingCursorAction === 'default') {
-            const currentIndex = state.items.findIndex(item => item.value === valueState);
-            const initialCursor = currentIndex >= 0 ? currentIndex : 0;
+            const currentIndex = state.items.findIndex(item => isValueEqual(item.value, valueState));
+            const initialCursor = currentIndex >= 0 ? currentIndex : findEnabledIndex(state.items, 0, 1);
 
             if (alignItemWithTriggerActiveRef.current)
                 scrollRequestRef.current = { type: 'none', targetIndex: -1 };
 
             else {
-                scrollRequestRef.current = { type: 'center', targetIndex: initialCursor };
+                scrollRequestRef.current = { type: 'center', targetIndex: Math.max(0, initialCursor) };
                 triggerScroll();
             }
 
@@ -345,16 +795,50 @@ function Select({
         }
 
         dispatch({ type: 'SET_PENDING_CURSOR_ACTION', payload: null });
-    }, [openState, state.items.length, state.pendingCursorAction, valueState, triggerScroll]);
+    }, [openState, state.items.length, state.pendingCursorAction, valueState, triggerScroll, isValueEqual]);
+
+    useImperativeHandle(actionsRef, () => ({
+        open: () => {
+            if (openState) return;
+            dispatch({ type: 'SET_PENDING_CURSOR_ACTION', payload: 'default' });
+            setOpen(true);
+        },
+
+        close: () => setOpen(false),
+        focus: () => triggerRef.current?.focus(),
+        unmount: () => unmountContentRef.current(),
+
+        highlight: (value: V) => {
+            const index = state.items.findIndex(item => isValueEqual(item.value, value));
+            if (index < 0 || state.items[index].disabled) return;
+
+            scrollRequestRef.current = { type: 'ensure-visible', targetIndex: index }
+            dispatch({ type: 'SET_CURSOR', payload: index });
+            triggerScroll();
+        },
+
+        scrollIntoView: (value: V) => {
+            const index = state.items.findIndex(item => isValueEqual(item.value, value));
+            if (index < 0) return;
+
+            scrollRequestRef.current = { type: 'center', targetIndex: index }
+            triggerScroll();
+        },
+    }), [openState, setOpen, state.items, isValueEqual, triggerScroll]);
 
     const stableContextRef = useRef<SelectStableContextState | null>(null);
 
     if (!stableContextRef.current) stableContextRef.current = {
-        setValue,
+        setValue: setValue as (value: unknown) => void,
         setOpen,
         dispatch,
         triggerScroll,
         registerItemLabel,
+        isValueEqual,
+        getValueLabel,
+        getValueString,
+        announce,
+        createItem,
         triggerRef,
         positionerRef,
         contentRef,
@@ -363,21 +847,87 @@ function Select({
         selectedItemTextRef,
         scrollRequestRef,
         alignItemWithTriggerActiveRef,
+        knownItemsRef,
+        virtualLayoutRef,
+        unmountContentRef,
+        notifyOpenChangeComplete,
     };
 
     const reactiveContext = useMemo<SelectReactiveContextState>(() => ({
         value: valueState,
         open: openState,
         disabled,
+        readOnly,
+        required,
+        layout,
+        columns,
+        dir,
+        gridCells,
+        isNative,
+        canCreate: onCreateItem !== undefined,
+        isCreating,
+        createError,
+        hasItemLoader,
+        loadStatus,
+        loadError: loadStatus === 'error' ? loadError : null,
+        validity,
+        items: normalizedItems,
         state,
         activeDescendant,
         scrollTrigger,
-    }), [valueState, openState, disabled, state, activeDescendant, scrollTrigger]);
+    }), [valueState, openState, disabled, readOnly, required, layout, columns, dir, gridCells, isNative, onCreateItem, isCreating, createError, hasItemLoader, loadStatus, loadError, validity, normalizedItems, state, activeDescendant, scrollTrigger]);
 
     return (
         <SelectStableContext.Provider value={stableContextRef.current}>
             <SelectReactiveContext.Provider value={reactiveContext}>
                 {children}
+
+                {/* Hidden native input for form integration */}
+                <input
+                    ref={setHiddenInputRef}
+                    type="text"
+                    name={name}
+                    value={serializedValue}
+                    required={required}
+                    disabled={disabled}
+                    autoComplete={autoComplete}
+                    onChange={hiddenInputChangeHandler}
+                    onInvalid={() => setValidated(true)}
+                    onFocus={hiddenInputFocusHandler}
+                    tabIndex={-1}
+                    aria-hidden="true"
+                    style={{
+                        position: 'absolute',
+                        pointerEvents: 'none',
+                        opacity: 0,
+                        margin: 0,
+                        width: 0,
+                        height: 0,
+                    }}
+                />
+
+                <span
+                    data-ui="select-announcer"
+
+                    role="status"
+                    aria-live="polite"
+                    aria-atomic="true"
+
+                    className="sr-only"
+                >
+                    {announcement}
+                </span>
+
+                {/* Options in a grid are described by their position, so moving the highlight announces it. */}
+                {gridCells && (
+                    <div data-ui="select-grid-positions" hidden>
+                        {gridCells.map((cell, index) => (
+                            <span key={state.items[index].id} id={`${state.items[index].id}-position`}>
+                                {`row ${cell.row + 1}, column ${cell.col + 1}`}
+                            </span>
+                        ))}
+                    </div>
+                )}
             </SelectReactiveContext.Provider>
         </SelectStableContext.Provider>
     );
@@ -388,6 +938,9 @@ function Select({
 interface SelectTriggerProps {
     disabled?: boolean;
 
+    /** Like a native `<select>`: arrows, Home/End and typeahead change the value while closed instead of opening the list. */
+    closedKeyboardSelection?: boolean;
+
     className?: string;
     style?: CSSProperties;
     children?: ReactNode;
@@ -395,34 +948,50 @@ interface SelectTriggerProps {
     asChild?: boolean;
 }
 
-function SelectTrigger({ className, children, asChild, ...props }: SelectTriggerProps) {
+function SelectTrigger({ className, children, asChild, closedKeyboardSelection = false, ...props }: SelectTriggerProps) {
     const {
         open,
         setOpen,
+        value,
         state,
         dispatch,
         setValue,
+        isValueEqual,
+        getValueString,
+        announce,
+        createItem,
+        canCreate,
+        knownItemsRef,
         activeDescendant,
         triggerRef,
         scrollRequestRef,
         triggerScroll,
         disabled,
+        readOnly,
+        required,
+        layout,
+        dir,
+        gridCells,
+        isNative,
+        validity,
     } = useSelectContext();
 
     const clickHandler = useCallback(() => {
-        if (disabled) return;
+        if (disabled || readOnly) return;
         if (!open) dispatch({ type: 'SET_PENDING_CURSOR_ACTION', payload: 'default' });
         setOpen(!open);
-    }, [disabled, open, dispatch, setOpen]);
+    }, [disabled, readOnly, open, dispatch, setOpen]);
 
-    const typeahead = useCallback((character: string) => {
+    // Returns the index the typed characters point at, cycling through the matches when one letter is repeated.
+    const findTypeaheadMatch = useCallback((character: string, items: SelectItemEntry[], currentIndex: number): number => {
         if (state.typeaheadTimeout)
             clearTimeout(state.typeaheadTimeout);
 
-        const enabledItems = state.items.filter(item => !item.disabled);
-        if (enabledItems.length === 0) return;
+        const enabledItems = items.filter(item => !item.disabled);
+        if (enabledItems.length === 0) return -1;
 
         const isRepeatedChar = character.toLowerCase() === state.typeaheadValue.toLowerCase() && state.typeaheadValue.length === 1;
+        let matchIndex = -1;
 
         if (isRepeatedChar) {
             const matchingItems = enabledItems.filter(item =>
@@ -431,15 +1000,11 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
 
             if (matchingItems.length > 0) {
                 const currentMatchIndex = matchingItems.findIndex(
-                    item => state.items.indexOf(item) === state.cursor
+                    item => items.indexOf(item) === currentIndex
                 );
 
                 const nextMatchIndex = (currentMatchIndex + 1) % matchingItems.length;
-                const nextMatch = matchingItems[nextMatchIndex];
-                const nextCursor = state.items.indexOf(nextMatch);
-                scrollRequestRef.current = { type: 'ensure-visible', targetIndex: nextCursor }
-                dispatch({ type: 'SET_CURSOR', payload: nextCursor });
-                triggerScroll();
+                matchIndex = items.indexOf(matchingItems[nextMatchIndex]);
             }
 
             dispatch({ type: 'SET_TYPEAHEAD_VALUE', payload: character });
@@ -453,12 +1018,7 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
                 item.textValue.toLowerCase().startsWith(newTypeaheadValue.toLowerCase())
             );
 
-            if (matchingItem) {
-                const matchingIndex = state.items.indexOf(matchingItem);
-                scrollRequestRef.current = { type: 'ensure-visible', targetIndex: matchingIndex }
-                dispatch({ type: 'SET_CURSOR', payload: matchingIndex });
-                triggerScroll();
-            }
+            if (matchingItem) matchIndex = items.indexOf(matchingItem);
         }
 
         const timeout = window.setTimeout(() => {
@@ -466,11 +1026,73 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
         }, 500);
 
         dispatch({ type: 'SET_TYPEAHEAD_TIMEOUT', payload: timeout });
-    }, [state.typeaheadTimeout, state.typeaheadValue, state.items, state.cursor, scrollRequestRef, triggerScroll]);
+
+        return matchIndex;
+    }, [state.typeaheadTimeout, state.typeaheadValue, dispatch]);
+
+    const typeahead = useCallback((character: string) => {
+        const matchIndex = findTypeaheadMatch(character, state.items, state.cursor);
+
+        // Without a match the highlight moves off the list, so Enter creates the typed item instead.
+        if (matchIndex < 0 && canCreate) dispatch({ type: 'SET_CURSOR', payload: -1 });
+        if (matchIndex < 0) return;
+
+        scrollRequestRef.current = { type: 'ensure-visible', targetIndex: matchIndex }
+        dispatch({ type: 'SET_CURSOR', payload: matchIndex });
+        triggerScroll();
+    }, [findTypeaheadMatch, canCreate, state.items, state.cursor, scrollRequestRef, dispatch, triggerScroll]);
+
+    // Returns whether the key was handled as a selection on the closed trigger.
+    const closedSelectionHandler = useCallback((event: KeyboardEvent<HTMLButtonElement>): boolean => {
+        const { key, altKey, ctrlKey, metaKey } = event;
+
+        const items = knownItemsRef.current;
+        const enabledItems = items.filter(item => !item.disabled);
+        const currentIndex = items.findIndex(item => isValueEqual(item.value, value));
+
+        let target: SelectItemEntry | undefined;
+
+        if (key === 'ArrowDown' && !altKey)
+            target = items.slice(currentIndex + 1).find(item => !item.disabled);
+
+        else if (key === 'ArrowUp' && !altKey) target = currentIndex < 0
+            ? enabledItems[0]
+            : items.slice(0, currentIndex).reverse().find(item => !item.disabled);
+
+        else if (key === 'Home') target = enabledItems[0];
+        else if (key === 'End') target = enabledItems[enabledItems.length - 1];
+
+        else if (key.length === 1 && key !== ' ' && !altKey && !ctrlKey && !metaKey)
+            target = items[findTypeaheadMatch(key, items, currentIndex)];
+
+        else return false;
+
+        if (!target || isValueEqual(target.value, value)) return true;
+
+        setValue(target.value);
+        dispatch({ type: 'SET_TEXT_VALUE', payload: target.textValue });
+        announce(target.textValue);
+
+        return true;
+    }, [knownItemsRef, value, isValueEqual, findTypeaheadMatch, setValue, dispatch, announce]);
 
     const keyDownHandler = useCallback((event: KeyboardEvent<HTMLButtonElement>) => {
-        if (disabled) return;
-        const action = getSelectAction(event, open);
+        if (disabled || readOnly) return;
+
+        if (!open && closedKeyboardSelection && closedSelectionHandler(event)) {
+            event.preventDefault();
+            return;
+        }
+        // A space in the middle of a name being created, as in "New York", is text rather than a selection.
+        const isCreateSpace = open && canCreate && event.key === ' ' && state.createValue !== '';
+
+        const direction = dir ?? (getComputedStyle(event.currentTarget).direction === 'rtl' ? 'rtl' : 'ltr');
+        const action = isCreateSpace ? SelectActions.Type : getSelectAction(event, open, layout, direction);
+
+        const isGrid = layout === 'grid';
+        const cells = gridCells ?? [];
+        const cursorCell = cells[state.cursor];
+        const lastRow = cells.length ? cells[cells.length - 1].row : 0;
         if (action !== SelectActions.None) event.preventDefault();
 
         switch (action) {
@@ -490,7 +1112,7 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
 
                 else {
                     scrollRequestRef.current = { type: 'edge-start', targetIndex: 0 }
-                    dispatch({ type: 'SET_CURSOR', payload: 0 });
+                    dispatch({ type: 'SET_CURSOR', payload: findEnabledIndex(state.items, 0, 1) });
                     triggerScroll();
                 }
 
@@ -505,15 +1127,16 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
                 else {
                     const lastIndex = state.items.length - 1;
                     scrollRequestRef.current = { type: 'edge-end', targetIndex: lastIndex }
-                    dispatch({ type: 'SET_CURSOR', payload: lastIndex });
+                    dispatch({ type: 'SET_CURSOR', payload: findEnabledIndex(state.items, lastIndex, -1) });
                     triggerScroll();
                 }
 
                 break;
 
-            case SelectActions.Previous:
-                if (state.cursor > 0) {
-                    const newCursor = state.cursor - 1;
+            case SelectActions.Previous: {
+                const newCursor = state.cursor > 0 ? findEnabledIndex(state.items, state.cursor - 1, -1) : -1;
+
+                if (newCursor >= 0 && !(isGrid && cells[newCursor].row !== cursorCell?.row)) {
                     const scrollType = newCursor === 0 ? 'edge-start' : 'ensure-visible';
                     scrollRequestRef.current = { type: scrollType, targetIndex: newCursor }
                     dispatch({ type: 'SET_CURSOR', payload: newCursor });
@@ -521,10 +1144,12 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
                 }
 
                 break;
+            }
 
-            case SelectActions.Next:
-                if (state.cursor < state.items.length - 1) {
-                    const newCursor = state.cursor + 1;
+            case SelectActions.Next: {
+                const newCursor = findEnabledIndex(state.items, state.cursor + 1, 1);
+
+                if (newCursor >= 0 && !(isGrid && cursorCell && cells[newCursor].row !== cursorCell.row)) {
                     const isLast = newCursor === state.items.length - 1;
                     const scrollType = isLast ? 'edge-end' : 'ensure-visible';
                     scrollRequestRef.current = { type: scrollType, targetIndex: newCursor }
@@ -533,9 +1158,43 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
                 }
 
                 break;
+            }
+
+            case SelectActions.PreviousRow: {
+                const newCursor = cursorCell ? findGridCellIndex(cells, state.items, cursorCell.row - 1, cursorCell.col, -1) : -1;
+
+                if (newCursor >= 0) {
+                    const scrollType = cells[newCursor].row === 0 ? 'edge-start' : 'ensure-visible';
+                    scrollRequestRef.current = { type: scrollType, targetIndex: newCursor }
+                    dispatch({ type: 'SET_CURSOR', payload: newCursor });
+                    triggerScroll();
+                }
+
+                break;
+            }
+
+            case SelectActions.NextRow: {
+                const newCursor = cursorCell
+                    ? findGridCellIndex(cells, state.items, cursorCell.row + 1, cursorCell.col, 1)
+                    : findEnabledIndex(state.items, 0, 1);
+
+                if (newCursor >= 0) {
+                    const scrollType = cells[newCursor].row === lastRow ? 'edge-end' : 'ensure-visible';
+                    scrollRequestRef.current = { type: scrollType, targetIndex: newCursor }
+                    dispatch({ type: 'SET_CURSOR', payload: newCursor });
+                    triggerScroll();
+                }
+
+                break;
+            }
 
             case SelectActions.PageUp: {
-                const pageUpCursor = Math.max(0, state.cursor - 10);
+                const pageStart = Math.max(0, state.cursor - 10);
+                let pageUpCursor = findEnabledIndex(state.items, pageStart, -1);
+                if (pageUpCursor < 0) pageUpCursor = findEnabledIndex(state.items, pageStart, 1);
+
+                if (pageUpCursor < 0) break;
+
                 const scrollType = pageUpCursor === 0 ? 'edge-start' : 'ensure-visible';
                 scrollRequestRef.current = { type: scrollType, targetIndex: pageUpCursor }
                 dispatch({ type: 'SET_CURSOR', payload: pageUpCursor });
@@ -544,7 +1203,12 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
             }
 
             case SelectActions.PageDown: {
-                const pageDownCursor = Math.min(state.items.length - 1, state.cursor + 10);
+                const pageEnd = Math.min(state.items.length - 1, state.cursor + 10);
+                let pageDownCursor = findEnabledIndex(state.items, pageEnd, 1);
+                if (pageDownCursor < 0) pageDownCursor = findEnabledIndex(state.items, pageEnd, -1);
+
+                if (pageDownCursor < 0) break;
+
                 const isLast = pageDownCursor === state.items.length - 1;
                 const scrollType = isLast ? 'edge-end' : 'ensure-visible';
                 scrollRequestRef.current = { type: scrollType, targetIndex: pageDownCursor }
@@ -559,20 +1223,30 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
                     setOpen(true);
                 }
 
+                if (event.key === 'Backspace' || event.key === 'Clear') {
+                    const createValue = event.key === 'Clear' ? '' : state.createValue.slice(0, -1);
+                    dispatch({ type: 'CLEAR_TYPEAHEAD' });
+                    dispatch({ type: 'SET_CREATE_VALUE', payload: createValue });
+                    break;
+                }
+
+                if (canCreate) dispatch({ type: 'APPEND_CREATE_VALUE', payload: event.key });
                 typeahead(event.key);
                 break;
 
             case SelectActions.Select:
-                if (state.cursor >= 0 && state.cursor < state.items.length) {
+                if (state.cursor >= 0 && state.cursor < state.items.length && !state.items[state.cursor].disabled) {
                     setValue(state.items[state.cursor].value);
                     dispatch({ type: 'SET_TEXT_VALUE', payload: state.items[state.cursor].textValue });
                     if (open) setOpen(false);
                 }
 
+                else if (open && canCreate && event.key === 'Enter' && state.createValue.trim()) createItem(state.createValue.trim());
+
                 break;
 
             case SelectActions.FocusMove:
-                if (state.cursor >= 0 && state.cursor < state.items.length) {
+                if (state.cursor >= 0 && state.cursor < state.items.length && !state.items[state.cursor].disabled) {
                     setValue(state.items[state.cursor].value);
                     dispatch({ type: 'SET_TEXT_VALUE', payload: state.items[state.cursor].textValue });
                     if (open) setOpen(false);
@@ -592,11 +1266,19 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
 
             default: break;
         }
-    }, [disabled, open, dispatch, setOpen, scrollRequestRef, triggerScroll, state.items, state.cursor, typeahead, setValue]);
+    }, [disabled, readOnly, open, closedKeyboardSelection, closedSelectionHandler, layout, dir, gridCells, dispatch, setOpen, scrollRequestRef, triggerScroll, state.items, state.cursor, state.createValue, typeahead, setValue, canCreate, createItem]);
+
+    const nativeChangeHandler = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+        const item = knownItemsRef.current.find(item => getValueString(item.value) === event.target.value);
+        if (!item) return;
+
+        setValue(item.value);
+        dispatch({ type: 'SET_TEXT_VALUE', payload: item.textValue });
+    }, [knownItemsRef, getValueString, setValue, dispatch]);
 
     const Component = asChild ? Slot : 'button';
 
-    return (
+    const trigger = (
         <Component
             data-ui="select-trigger"
 
@@ -604,25 +1286,32 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
             data-content-open
             data-pressed
             data-disabled
-            data-readonly
-            data-required
-            data-valid
-            data-invalid
             data-placeholder
 
+            data-readonly={readOnly ? "" : undefined}
+            data-required={required ? "" : undefined}
+            data-valid={validity === 'valid' ? "" : undefined}
+            data-invalid={validity === 'invalid' ? "" : undefined}
+
             aria-activedescendant={activeDescendant || undefined}
             aria-haspopup="listbox"
             aria-expanded={open}
             aria-disabled={disabled || undefined}
+            aria-readonly={readOnly || undefined}
+            aria-required={required || undefined}
+            aria-invalid={validity === 'invalid' || undefined}
             role="combobox"
 
-            onKeyDown={keyDownHandler}
-            onClick={clickHandler}
+            // The native select underneath takes focus and is what assistive technology reads.
+            aria-hidden={isNative || undefined}
+
+            onKeyDown={isNative ? undefined : keyDownHandler}
+            onClick={isNative ? undefined : clickHandler}
 
             ref={triggerRef}
             type="button"
             disabled={disabled}
-            tabIndex={disabled ? -1 : 0}
+            tabIndex={disabled || isNative ? -1 : 0}
 
             className={cn(
                 'w-fit min-w-64 h-8 inline-flex items-center justify-between gap-2 px-3 py-2 rounded text-write border border-bound bg-surface transition-all',
@@ -636,6 +1325,53 @@ function SelectTrigger({ className, children, asChild, ...props }: SelectTrigger
             {children}
         </Component>
     );
+
+    // Items are read from the last mounted list, so options exist while the popup has never opened.
+    const nativeOptions = isNative ? groupEntries(knownItemsRef.current).map(({ group, items }, index) => {
+        const options = items.map(item => (
+            <option key={item.id} value={getValueString(item.value)} disabled={item.disabled}>
+                {item.textValue}
+            </option>
+        ));
+
+        return group
+            ? <optgroup key={group.id} label={group.label}>{options}</optgroup>
+            : <Fragment key={index}>{options}</Fragment>;
+    }) : null;
+
+    return (
+        <>
+            {isNative ? (
+                <span
+                    data-ui="select-native"
+
+                    className={cn(
+                        'relative inline-flex w-fit rounded',
+                        'has-[select:focus-visible]:ring-2 has-[select:focus-visible]:ring-outer-bound has-[select:focus-visible]:ring-offset-muted-bound has-[select:focus-visible]:ring-offset-1'
+                    )}
+                >
+                    {trigger}
+
+                    <select
+                        data-ui="select-native-control"
+
+                        value={getValueString(value)}
+                        onChange={nativeChangeHandler}
+
+                        disabled={disabled || readOnly}
+                        aria-required={required || undefined}
+                        aria-invalid={validity === 'invalid' || undefined}
+
+                        className="absolute inset-0 size-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+                    >
+                        {value === null || value === undefined ? <option value="" disabled hidden /> : null}
+                        {nativeOptions}
+                    </select>
+                </span>
+            ) : trigger}
+
+        </>
+    );
 }
 
 // ---------------------------------------------------------------------------------------------------- //
@@ -651,9 +1387,10 @@ interface SelectValueProps {
 }
 
 function SelectValue({ className, children, placeholder, asChild, ...props }: SelectValueProps) {
-    const { state, valueRef } = useSelectContext();
+    const { value, items, state, valueRef, getValueLabel, isValueEqual } = useSelectContext();
 
-    const displayed = children ?? state.textValue ?? placeholder ?? '';
+    const itemLabel = findItemData(items, value, isValueEqual)?.label;
+    const displayed = children ?? getValueLabel(value) ?? itemLabel ?? state.textValue ?? placeholder ?? '';
 
     const Component = asChild ? Slot : 'span';
 
@@ -680,6 +1417,80 @@ function SelectValue({ className, children, placeholder, asChild, ...props }: Se
 
 // ---------------------------------------------------------------------------------------------------- //
 
+interface SelectClearProps extends HTMLAttributes<HTMLElement> {
+    asChild?: boolean;
+}
+
+function SelectClear({ className, asChild, children, ...props }: SelectClearProps) {
+    const { value, setValue, dispatch, disabled, readOnly, triggerRef } = useSelectContext();
+
+    const hasValue = value !== null && value !== undefined;
+
+    const clickHandler = useCallback((e: React.MouseEvent) => {
+        // Keeps the click from reaching the trigger when the clear button sits inside it.
+        e.stopPropagation();
+        if (disabled || readOnly) return;
+        setValue(null);
+        dispatch({ type: 'SET_TEXT_VALUE', payload: null });
+        triggerRef.current?.focus();
+    }, [disabled, readOnly, setValue, dispatch, triggerRef]);
+
+    if (!hasValue) return null;
+
+    // A span, because a nested <button> is invalid when placed inside SelectTrigger.
+    const Component = asChild ? Slot : 'span';
+
+    return (
+        <Component
+            data-ui="select-clear"
+
+            data-disabled={disabled ? "" : undefined}
+
+            role="button"
+            tabIndex={-1}
+
+            aria-label="Clear"
+            aria-disabled={disabled || undefined}
+
+            onClick={clickHandler}
+
+            className={cn(
+                'w-fit [&>svg]:size-4 text-write shrink-0 transition-colors cursor-pointer rounded',
+                'data-[disabled]:opacity-50 data-[disabled]:pointer-events-none',
+                'focus:outline-none',
+                className
+            )}
+
+            {...props}
+        >
+            {asChild ? children : (
+                <svg
+                    data-ui="select-clear-icon"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="currentColor"
+                    viewBox="0 0 24 24"
+                    aria-hidden
+                >
+                    <path
+                        d="M18.7071 5.29289C19.0976 5.68342 19.0976 6.31658 18.7071 6.70711L6.70711 18.7071C6.31658 19.0976 5.68342 19.0976 5.29289 18.7071C4.90237 18.3166 4.90237 17.6834 5.29289 17.2929L17.2929 5.29289C17.6834 4.90237 18.3166 4.90237 18.7071 5.29289Z"
+                        fill="currentColor"
+                        fillRule="evenodd"
+                        clipRule="evenodd"
+                    />
+                    <path
+                        d="M5.29289 5.29289C5.68342 4.90237 6.31658 4.90237 6.70711 5.29289L18.7071 17.2929C19.0976 17.6834 19.0976 18.3166 18.7071 18.7071C18.3166 19.0976 17.6834 19.0976 17.2929 18.7071L5.29289 6.70711C4.90237 6.31658 4.90237 5.68342 5.29289 5.29289Z"
+                        fill="currentColor"
+                        fillRule="evenodd"
+                        clipRule="evenodd"
+                    />
+                </svg>
+            )}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
 interface SelectTriggerIndicatorProps extends HTMLAttributes<HTMLElement> {
     asChild?: boolean;
 }
@@ -757,18 +1568,6 @@ function SelectPortal({ container, children }: SelectPortalProps) {
 
 // ---------------------------------------------------------------------------------------------------- //
 
-function shouldAlignItemWithTrigger(triggerEl: HTMLButtonElement, minHeight: number): boolean {
-    const triggerRect = triggerEl.getBoundingClientRect();
-    const viewportHeight = window.innerHeight;
-
-    if (triggerRect.top < 20 || triggerRect.bottom > viewportHeight - 20) return false;
-    if (viewportHeight - triggerRect.top < minHeight) return false;
-
-    return true;
-}
-
-// ---------------------------------------------------------------------------------------------------- //
-
 interface SelectPositionerProps extends
     Omit<ComponentPropsWithoutRef<typeof Positioner>, 'anchor' | 'enabled'> {
     alignItemWithTrigger?: boolean;
@@ -796,6 +1595,7 @@ function SelectPositioner({
 
     const {
         open,
+        setOpen,
         triggerRef,
         positionerRef,
         alignItemWithTriggerActiveRef,
@@ -824,7 +1624,7 @@ function SelectPositioner({
         pointerType !== "touch" &&
         open &&
         !!triggerRef.current &&
-        shouldAlignItemWithTrigger(triggerRef.current, minHeight);
+        canAlignItemWithTrigger(triggerRef.current, minHeight);
 
     alignItemWithTriggerActiveRef.current = alignActive;
 
@@ -873,6 +1673,8 @@ function SelectPositioner({
             sticky={sticky}
             positionMethod={positionMethod}
 
+            onClose={() => setOpen(false)}
+
             {...props}
         >
             {children}
@@ -884,6 +1686,24 @@ function SelectPositioner({
 
 type InteractionType = 'mouse' | 'keyboard' | 'touch' | 'pen';
 
+// Waits a frame for the open/closed styles to start any animation, then for every running animation to settle.
+function waitForAnimations(ref: RefObject<HTMLElement | null>, callback: () => void): () => void {
+    let cancelled = false;
+
+    const frame = requestAnimationFrame(() => {
+        const animations = ref.current?.getAnimations() ?? [];
+
+        Promise.allSettled(animations.map(animation => animation.finished)).then(() => {
+            if (!cancelled) callback();
+        });
+    });
+
+    return () => {
+        cancelled = true;
+        cancelAnimationFrame(frame);
+    }
+}
+
 interface SelectContentProps extends HTMLAttributes<HTMLElement> {
     asChild?: boolean;
 
@@ -915,8 +1735,9 @@ function SelectContent({
 }: SelectContentProps) {
     const {
         open, setOpen, value, triggerRef, positionerRef, contentRef, viewportRef,
-        scrollRequestRef, scrollTrigger, state, dispatch,
+        scrollRequestRef, scrollTrigger, state, dispatch, isValueEqual,
         valueRef, selectedItemTextRef, alignItemWithTriggerActiveRef,
+        unmountContentRef, notifyOpenChangeComplete, virtualLayoutRef, layout, dir, loadStatus,
     } = useSelectContext();
 
     const [hasCollected, setHasCollected] = useState(false);
@@ -953,48 +1774,28 @@ function SelectContent({
         if (state.items.length === 0) return;
 
         queueMicrotask(() => {
-            const selectedIndex = state.items.findIndex(item => item.value === value);
+            const selectedIndex = state.items.findIndex(item => isValueEqual(item.value, value));
             const targetIndex = selectedIndex >= 0 ? selectedIndex : 0;
-            const targetItem = state.items[targetIndex]?.element;
+            // Virtualized entries carry no element; the rendered item is found by its id.
+            const entry = state.items[targetIndex];
+            const targetItem = entry?.element ?? (entry ? document.getElementById(entry.id) : null);
             if (!targetItem) return;
 
             let textElement: HTMLElement | null = selectedItemTextRef.current;
             if (!textElement) {
                 textElement = targetItem.querySelector('[data-ui="select-item-text"]');
             }
-            const valueElement = valueRef.current;
-
-            const triggerRect = trigger.getBoundingClientRect();
-
-            let desiredTop: number;
-            let desiredLeft: number;
-
-            if (textElement && valueElement) {
-                const textRect = textElement.getBoundingClientRect();
-                const valueRect = valueElement.getBoundingClientRect();
-                desiredTop = valueRect.top - textRect.top;
-                desiredLeft = valueRect.left - textRect.left;
-            } else {
-                const itemRect = targetItem.getBoundingClientRect();
-                desiredTop = triggerRect.top - itemRect.top;
-                desiredLeft = triggerRect.left - itemRect.left;
-            }
 
-            const vpW = document.documentElement.clientWidth;
-            const vpH = document.documentElement.clientHeight;
-            const posW = positioner.offsetWidth;
-            const posH = positioner.offsetHeight;
-            const pad = 8;
-
-            const clampedLeft = Math.max(pad, Math.min(desiredLeft, vpW - posW - pad));
-            let clampedTop = Math.max(pad, Math.min(desiredTop, vpH - posH - pad));
-
-            if (posH > vpH - 2 * pad) clampedTop = pad;
+            const { x, y, scrollTop } = computeItemAlignedPosition({
+                triggerEl: trigger,
+                floatingEl: positioner,
+                scrollerEl: scroller,
+                itemEl: targetItem,
+                itemTextEl: textElement,
+                valueEl: valueRef.current,
+            });
 
-            const topShift = clampedTop - desiredTop;
-            if (topShift !== 0) {
-                scroller.scrollTop = Math.max(0, scroller.scrollTop + topShift);
-            }
+            scroller.scrollTop = scrollTop;
 
             originalPositionerStylesRef.current = {
                 top: positioner.style.top,
@@ -1002,15 +1803,15 @@ function SelectContent({
                 visibility: positioner.style.visibility,
             };
 
-            positioner.style.top = `${clampedTop}px`;
-            positioner.style.left = `${clampedLeft}px`;
+            positioner.style.top = `${y}px`;
+            positioner.style.left = `${x}px`;
             positioner.style.visibility = 'visible';
 
             scrollRequestRef.current = { type: 'none', targetIndex: -1 };
             setIsPositioned(true);
             initialPlacedRef.current = true;
         });
-    }, [open, value, state.items.length, positionerRef, triggerRef, contentRef, viewportRef, selectedItemTextRef, valueRef, alignItemWithTriggerActiveRef, scrollRequestRef]);
+    }, [open, value, state.items.length, positionerRef, triggerRef, contentRef, viewportRef, selectedItemTextRef, valueRef, alignItemWithTriggerActiveRef, scrollRequestRef, isValueEqual]);
 
     useLayoutEffect(() => {
         if (!open || !isPositioned) return;
@@ -1026,7 +1827,21 @@ function SelectContent({
 
         if (targetIndex < 0 || targetIndex >= state.items.length) return;
         const { element } = state.items[targetIndex];
-        if (!element) return;
+
+        // Virtualized items may not be rendered, so their box comes from the list geometry.
+        const virtualLayout = virtualLayoutRef.current;
+        if (!element && !virtualLayout) return;
+
+        const getItemBox = () => {
+            if (virtualLayout) return {
+                top: virtualLayout.getItemTop(targetIndex),
+                height: virtualLayout.itemHeight,
+            }
+
+            const elementRect = element!.getBoundingClientRect();
+            const viewportRect = viewport.getBoundingClientRect();
+            return { top: elementRect.top - viewportRect.top + viewport.scrollTop, height: elementRect.height }
+        }
 
         lastProcessedRef.current = { trigger: scrollTrigger, positioned: true };
 
@@ -1034,10 +1849,7 @@ function SelectContent({
         else if (type === 'edge-end') viewport.scrollTo({ top: viewport.scrollHeight - viewport.clientHeight, behavior: 'instant' });
 
         else if (type === 'item-top' || type === 'center') {
-            const elementRect = element.getBoundingClientRect();
-            const viewportRect = viewport.getBoundingClientRect();
-            const elementTop = elementRect.top - viewportRect.top + viewport.scrollTop;
-            const elementHeight = elementRect.height;
+            const { top: elementTop, height: elementHeight } = getItemBox();
             const viewportHeight = viewport.clientHeight;
             const centerOffset = (viewportHeight - elementHeight) / 2;
             const targetScroll = elementTop - centerOffset;
@@ -1047,10 +1859,7 @@ function SelectContent({
         }
 
         else if (type === 'ensure-visible') {
-            const elementRect = element.getBoundingClientRect();
-            const viewportRect = viewport.getBoundingClientRect();
-            const elementTop = elementRect.top - viewportRect.top + viewport.scrollTop;
-            const elementHeight = elementRect.height;
+            const { top: elementTop, height: elementHeight } = getItemBox();
             const elementBottom = elementTop + elementHeight;
             const scrollTop = viewport.scrollTop;
             const scrollBottom = scrollTop + viewport.clientHeight;
@@ -1060,7 +1869,7 @@ function SelectContent({
         }
 
         scrollRequestRef.current = { type: 'none', targetIndex: -1 };
-    }, [open, isPositioned, scrollTrigger, state.items, scrollRequestRef, viewportRef]);
+    }, [open, isPositioned, scrollTrigger, state.items, scrollRequestRef, viewportRef, virtualLayoutRef]);
 
     useEffect(() => {
         if (!open) {
@@ -1087,6 +1896,23 @@ function SelectContent({
         }
     }, [isCollectionPass, open]);
 
+    useLayoutEffect(() => {
+        unmountContentRef.current = () => { if (!open) setIsMounted(false); };
+        return () => { unmountContentRef.current = () => { }; };
+    }, [open, unmountContentRef]);
+
+    // Only reported once the transition settles; a reopen before the exit animation ends reports nothing.
+    const completedOpenRef = useRef(open);
+
+    useEffect(() => {
+        if (completedOpenRef.current === open) return;
+
+        return waitForAnimations(contentRef, () => {
+            completedOpenRef.current = open;
+            notifyOpenChangeComplete(open);
+        });
+    }, [open, contentRef, notifyOpenChangeComplete]);
+
     const animationEndHandler = useCallback((event: React.AnimationEvent<HTMLDivElement>) => {
         if (event.target === event.currentTarget && !open) {
             const element = event.currentTarget;
@@ -1173,7 +1999,11 @@ function SelectContent({
             data-animation-in
             data-animation-out
 
+            data-layout={layout}
+
             role="listbox"
+            dir={dir}
+            aria-busy={loadStatus === 'loading' || undefined}
 
             ref={contentRef}
             tabIndex={-1}
@@ -1212,32 +2042,351 @@ function SelectContent({
 // ---------------------------------------------------------------------------------------------------- //
 
 interface SelectViewportProps {
+    /** Render only the visible part of `items`, below any children. Items and group labels must share `itemHeight`. */
+    virtualized?: boolean;
+    itemHeight?: number;
+    /** Items rendered beyond each edge of the visible range. */
+    overscan?: number;
+
     className?: string;
     style?: CSSProperties;
     children?: ReactNode;
     asChild?: boolean;
 }
 
-function SelectViewport({ children, className, asChild, ...props }: SelectViewportProps) {
-    const { viewportRef } = useSelectContext();
+function SelectItemList() {
+    const { items } = useSelectContext();
+    if (!items) return null;
+
+    const renderItem = (item: SelectItemData<unknown>, index: number) => (
+        <SelectItem key={index} value={item.value} disabled={item.disabled}>
+            <SelectItemText>{item.label}</SelectItemText>
+            <SelectItemIndicator />
+        </SelectItem>
+    );
+
+    return items.map((entry, index) => isGroupData(entry)
+        ? (
+            <SelectGroup key={index}>
+                <SelectLabel>{entry.label}</SelectLabel>
+                {entry.items.map(renderItem)}
+            </SelectGroup>
+        )
+        : renderItem(entry, index)
+    );
+}
+
+// Index of a virtualized item in the full list; such items are entries of the list rather than registering themselves.
+const SelectVirtualIndexContext = createContext<number | null>(null);
+
+type SelectVirtualRow<V> =
+    | { type: 'label'; label: ReactNode; groupIndex: number }
+    | { type: 'item'; item: SelectItemData<V>; itemIndex: number; groupIndex: number | null; groupLabel: string };
+
+// Rows of a virtualized list in display order; a group contributes its label as a row of its own.
+function flattenItemData<V>(items: Array<SelectItemData<V> | SelectGroupData<V>> | null): SelectVirtualRow<V>[] {
+    if (!items) return [];
+
+    const rows: SelectVirtualRow<V>[] = [];
+    let itemIndex = 0;
+
+    items.forEach((entry, groupIndex) => {
+        if (!isGroupData(entry)) {
+            rows.push({ type: 'item', item: entry, itemIndex: itemIndex++, groupIndex: null, groupLabel: '' });
+            return;
+        }
+
+        const groupLabel = typeof entry.label === 'string' ? entry.label : '';
+        rows.push({ type: 'label', label: entry.label, groupIndex });
+
+        entry.items.forEach(item => rows.push({ type: 'item', item, itemIndex: itemIndex++, groupIndex, groupLabel }));
+    });
+
+    return rows;
+}
+
+interface SelectVirtualListProps {
+    itemHeight: number;
+    overscan: number;
+}
+
+function SelectVirtualList({ itemHeight, overscan }: SelectVirtualListProps) {
+    const {
+        open, value, items, viewportRef, virtualLayoutRef,
+        state, dispatch, isValueEqual, getValueLabel, getValueString,
+    } = useSelectContext();
+
+    const listRef = useRef<HTMLDivElement>(null);
+    const baseId = useId();
+    const rows = useMemo(() => flattenItemData(items), [items]);
+
+    // Row of every entry, since group labels take rows between the items.
+    const itemRowIndices = useMemo(() => rows.flatMap((row, rowIndex) => row.type === 'item' ? [rowIndex] : []), [rows]);
+
+    // Navigation and typeahead run over these entries, so they cover every item whether rendered or not.
+    const entries = useMemo<SelectItemEntry[]>(() => rows.flatMap(row => row.type === 'item' ? [{
+        id: `${baseId}-${row.itemIndex}`,
+        value: row.item.value,
+        textValue: typeof row.item.label === 'string' ? row.item.label : getValueLabel(row.item.value) ?? getValueString(row.item.value),
+        disabled: row.item.disabled ?? false,
+        element: null,
+        group: row.groupIndex !== null ? { id: `${baseId}-group-${row.groupIndex}`, label: row.groupLabel } : null,
+    }] : []), [rows, baseId, getValueLabel, getValueString]);
+
+    useLayoutEffect(() => {
+        dispatch({ type: 'SET_ITEMS', payload: entries });
+        return () => dispatch({ type: 'SET_ITEMS', payload: [] });
+    }, [entries, dispatch]);
+
+    // Children of the viewport, such as `SelectLoading`, may sit above the list and push it down.
+    const getListOffset = useCallback(() => {
+        const list = listRef.current;
+        const viewport = viewportRef.current;
+        if (!list || !viewport) return 0;
+
+        return list.getBoundingClientRect().top - viewport.getBoundingClientRect().top + viewport.scrollTop;
+    }, [viewportRef]);
+
+    useLayoutEffect(() => {
+        virtualLayoutRef.current = {
+            itemHeight,
+            getItemTop: (index) => getListOffset() + (itemRowIndices[index] ?? index) * itemHeight,
+        }
+
+        return () => { virtualLayoutRef.current = null; };
+    }, [itemHeight, itemRowIndices, getListOffset, virtualLayoutRef]);
+
+    const getSelectedTop = useCallback(() => {
+        const selectedIndex = entries.findIndex(entry => isValueEqual(entry.value, value));
+        return (itemRowIndices[selectedIndex] ?? 0) * itemHeight;
+    }, [entries, itemRowIndices, value, itemHeight, isValueEqual]);
+
+    const getSelectedTopRef = useRef(getSelectedTop);
+    getSelectedTopRef.current = getSelectedTop;
+
+    // Scroll position relative to the top of the list rather than of the viewport.
+    const [scrollTop, setScrollTop] = useState(getSelectedTop);
+    const [viewportHeight, setViewportHeight] = useState(0);
+
+    // Opening starts the window at the selected item, so align-with-trigger finds it rendered.
+    useLayoutEffect(() => {
+        if (open) setScrollTop(getSelectedTopRef.current());
+    }, [open]);
+
+    useLayoutEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+
+        setViewportHeight(viewport.clientHeight);
+
+        const handleScroll = () => {
+            setScrollTop(viewport.scrollTop - getListOffset());
+            setViewportHeight(viewport.clientHeight);
+        }
+
+        viewport.addEventListener('scroll', handleScroll, { passive: true });
+        return () => viewport.removeEventListener('scroll', handleScroll);
+    }, [viewportRef, getListOffset]);
+
+    const visibleHeight = viewportHeight || itemHeight * 10;
+    const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+    const end = Math.min(rows.length, Math.ceil((scrollTop + visibleHeight) / itemHeight) + overscan);
+
+    // The highlighted item stays mounted outside the window so `aria-activedescendant` always points at an element.
+    const rowIndices = Array.from({ length: Math.max(0, end - start) }, (_, offset) => start + offset);
+    const cursorRow = itemRowIndices[state.cursor] ?? -1;
+    if (cursorRow >= 0 && (cursorRow < start || cursorRow >= end)) rowIndices.push(cursorRow);
+
+    return (
+        <div
+            data-ui="select-virtual-list"
+            ref={listRef}
+            style={{ position: 'relative', height: rows.length * itemHeight }}
+        >
+            {rowIndices.map((rowIndex) => {
+                const row = rows[rowIndex];
+                const style: CSSProperties = { position: 'absolute', top: rowIndex * itemHeight, left: 0, right: 0, height: itemHeight }
+
+                if (row.type === 'label') return (
+                    <div
+                        key={`${baseId}-group-${row.groupIndex}`}
+                        data-ui="select-label"
+                        role="presentation"
+                        style={style}
+                        className="flex items-center text-xs font-semibold text-muted-write px-2"
+                    >
+                        {row.label}
+                    </div>
+                );
+
+                return (
+                    <SelectVirtualIndexContext.Provider key={entries[row.itemIndex].id} value={row.itemIndex}>
+                        <SelectItem
+                            value={row.item.value}
+                            disabled={row.item.disabled}
+                            style={style}
+                        >
+                            <SelectItemText>{row.item.label}</SelectItemText>
+                            <SelectItemIndicator />
+                        </SelectItem>
+                    </SelectVirtualIndexContext.Provider>
+                );
+            })}
+        </div>
+    );
+}
+
+function SelectViewport({ virtualized = false, itemHeight = 32, overscan = 5, children, className, style, asChild, ...props }: SelectViewportProps) {
+    const { viewportRef, layout, columns, hasItemLoader } = useSelectContext();
 
     const Component = asChild ? Slot : 'div';
 
     return (
         <Component
             data-ui="select-viewport"
+            data-layout={layout}
 
             ref={viewportRef}
             tabIndex={-1}
 
             className={cn(
                 '[scrollbar-width:none] p-1 w-full flex-1 overflow-y-auto',
+                layout === 'grid' && 'grid gap-1',
                 className
             )}
 
+            style={layout === 'grid' ? { gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, ...style } : style}
+
             {...props}
         >
-            {children}
+            {/* Loaded items can only be rendered here, so children such as `SelectLoading` sit next to them. */}
+            {virtualized
+                ? <>
+                    {children}
+                    <SelectVirtualList itemHeight={itemHeight} overscan={overscan} />
+                </>
+                : <>
+                    {children}
+                    {(hasItemLoader || !children) && <SelectItemList />}
+                </>}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface SelectLoadingProps extends HTMLAttributes<HTMLElement> {
+    asChild?: boolean;
+}
+
+function SelectLoading({ children, className, asChild, ...props }: SelectLoadingProps) {
+    const { loadStatus } = useSelectContext();
+    if (loadStatus !== 'loading') return null;
+
+    const Component = asChild ? Slot : 'div';
+
+    return (
+        <Component
+            data-ui="select-loading"
+
+            role="status"
+            aria-live="polite"
+
+            className={cn(
+                'flex items-center justify-start w-full text-sm text-muted-write px-2 py-1.5 rounded',
+                className
+            )}
+
+            {...props}
+        >
+            {children ?? 'Loading...'}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface SelectErrorProps extends Omit<HTMLAttributes<HTMLElement>, 'children'> {
+    /** Content shown when `loadItems` rejects; a function receives the rejection reason. */
+    children?: ReactNode | ((error: unknown) => ReactNode);
+    asChild?: boolean;
+}
+
+function SelectError({ children, className, asChild, ...props }: SelectErrorProps) {
+    const { loadStatus, loadError } = useSelectContext();
+    if (loadStatus !== 'error') return null;
+
+    const Component = asChild ? Slot : 'div';
+
+    return (
+        <Component
+            data-ui="select-error"
+
+            role="alert"
+
+            className={cn(
+                'flex items-center justify-start w-full text-sm text-muted-write px-2 py-1.5 rounded',
+                className
+            )}
+
+            {...props}
+        >
+            {typeof children === 'function' ? children(loadError) : children ?? 'Failed to load options.'}
+        </Component>
+    );
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface SelectCreateProps extends Omit<HTMLAttributes<HTMLElement>, 'children'> {
+    /** Content of the footer; a function receives the text that would be created. */
+    children?: ReactNode | ((label: string) => ReactNode);
+    asChild?: boolean;
+}
+
+function SelectCreate({ children, className, asChild, ...props }: SelectCreateProps) {
+    const { state, canCreate, isCreating, createError, createItem } = useSelectContext();
+
+    const label = state.createValue.trim();
+    const exists = state.items.some(item => item.textValue.trim().toLowerCase() === label.toLowerCase());
+
+    const clickHandler = useCallback(() => {
+        createItem(label);
+    }, [createItem, label]);
+
+    if (!canCreate || !label || exists) return null;
+
+    const Component = asChild ? Slot : 'div';
+
+    return (
+        <Component
+            data-ui="select-create"
+
+            data-highlighted={state.cursor < 0 ? "" : undefined}
+            data-pending={isCreating || undefined}
+            data-invalid={createError !== null || undefined}
+
+            role="option"
+            aria-selected={false}
+            aria-disabled={isCreating || undefined}
+
+            onClick={clickHandler}
+
+            className={cn(
+                'flex flex-col items-start w-full text-sm text-write px-2 py-1.5 rounded cursor-pointer',
+                'data-[highlighted]:bg-muted-surface data-[pending]:opacity-50 data-[pending]:cursor-wait',
+                className
+            )}
+
+            {...props}
+        >
+            {typeof children === 'function' ? children(label) : children ?? `Create "${label}"`}
+
+            {createError !== null && (
+                <span data-ui="select-create-error" role="alert" className="text-xs text-danger">
+                    {createError}
+                </span>
+            )}
         </Component>
     );
 }
@@ -1259,39 +2408,44 @@ function useSelectItemContext(): SelectItemContextState {
 
 // ---------------------------------------------------------------------------------------------------- //
 
-interface SelectItemProps {
+interface SelectItemProps<V = unknown> {
     className?: string;
     style?: CSSProperties;
     children?: ReactNode;
 
     label?: string; // instead of textValue
-    value?: any;
+    value?: V;
 
     disabled?: boolean;
     asChild?: boolean;
 }
 
-function SelectItem({ children, className, value, disabled, textValue, asChild, ...props }: SelectItemProps) {
-    const { setOpen, setValue, value: currentValue, state, dispatch, registerItemLabel } = useSelectContext();
+function SelectItem<V>({ children, className, value, disabled, textValue, asChild, ...props }: SelectItemProps<V>) {
+    const { setOpen, setValue, value: currentValue, state, dispatch, registerItemLabel, isValueEqual, getValueLabel, layout } = useSelectContext();
+    const virtualIndex = useContext(SelectVirtualIndexContext);
+    const groupContext = useContext(SelectGroupContext);
+    const groupId = groupContext?.groupId;
+    const groupLabelRef = groupContext?.labelElementRef;
 
     const ref = useRef<HTMLDivElement>(null);
     const textElementRef = useRef<HTMLElement>(null);
     const fallbackId = useId();
-    const itemId = props.id ?? fallbackId;
-    const selected = value === currentValue;
-    const itemIndex = state.items.findIndex(item => item.id === itemId);
+    const itemId = virtualIndex !== null ? state.items[virtualIndex]?.id ?? fallbackId : props.id ?? fallbackId;
+    const selected = value !== undefined && isValueEqual(value, currentValue);
+    const itemIndex = virtualIndex ?? state.items.findIndex(item => item.id === itemId);
     const highlighted = itemIndex >= 0 && state.cursor === itemIndex;
 
     const context: SelectItemContextState = { textElementRef, selected }
 
     useLayoutEffect(() => {
-        if (!value || disabled) return;
+        // Disabled items are registered too, so the native fallback lists them; navigation skips them.
+        if (value === undefined || virtualIndex !== null) return;
 
         const resolvedTextValue = textValue ??
             textElementRef?.current?.textContent ??
             ref?.current?.textContent ??
-            value ??
-            '';
+            getValueLabel(value) ??
+            String(value ?? '');
 
         const item: SelectItemEntry = {
             id: itemId,
@@ -1299,6 +2453,7 @@ function SelectItem({ children, className, value, disabled, textValue, asChild,
             textValue: resolvedTextValue,
             disabled: disabled ?? false,
             element: ref.current,
+            group: groupId ? { id: groupId, label: groupLabelRef?.current?.textContent ?? '' } : null,
         }
 
         dispatch({ type: 'REGISTER_ITEM', payload: item });
@@ -1307,21 +2462,21 @@ function SelectItem({ children, className, value, disabled, textValue, asChild,
         registerItemLabel(value, resolvedTextValue);
 
         return () => dispatch({ type: 'UNREGISTER_ITEM', payload: itemId });
-    }, [itemId, value, textValue, disabled, dispatch, registerItemLabel]);
+    }, [itemId, value, textValue, disabled, virtualIndex, groupId, groupLabelRef, dispatch, registerItemLabel, getValueLabel]);
 
     const clickHandler = useCallback(() => {
         if (disabled) return;
-        if (value) setValue(value);
+        if (value !== undefined) setValue(value);
         setOpen(false);
 
         const resolvedTextValue = textValue ??
             textElementRef?.current?.textContent ??
             ref?.current?.textContent ??
-            value ??
-            '';
+            getValueLabel(value) ??
+            String(value ?? '');
 
         dispatch({ type: 'SET_TEXT_VALUE', payload: resolvedTextValue });
-    }, [disabled, value, setValue, setOpen, textValue, dispatch]);
+    }, [disabled, value, setValue, setOpen, textValue, dispatch, getValueLabel]);
 
     const mouseEnterHandler = useCallback(() => {
         if (disabled) return;
@@ -1351,6 +2506,9 @@ function SelectItem({ children, className, value, disabled, textValue, asChild,
                 aria-selected={selected}
                 aria-disabled={disabled}
                 role="option"
+                aria-describedby={layout === 'grid' && itemIndex >= 0 ? `${itemId}-position` : undefined}
+                aria-setsize={virtualIndex !== null ? state.items.length : undefined}
+                aria-posinset={virtualIndex !== null ? virtualIndex + 1 : undefined}
 
                 onMouseEnter={mouseEnterHandler}
                 onPointerMove={pointerMoveHandler}
@@ -1486,6 +2644,7 @@ interface SelectGroupProps {
 }
 
 function SelectGroup({ children, className, asChild, ...props }: SelectGroupProps) {
+    const { layout } = useSelectContext();
     const fallbackId = useId();
     const groupId = props.id ?? fallbackId;
     const labelElementRef = useRef<HTMLElement>(null);
@@ -1507,6 +2666,7 @@ function SelectGroup({ children, className, asChild, ...props }: SelectGroupProp
 
                 className={cn(
                     'w-full flex flex-col gap-px',
+                    layout === 'grid' && 'col-span-full grid grid-cols-subgrid gap-1',
                     className
                 )}
 
@@ -1528,6 +2688,7 @@ interface SelectLabelProps {
 }
 
 function SelectLabel({ children, className, asChild, ...props }: SelectLabelProps) {
+    const { layout } = useSelectContext();
     const { groupId, labelElementRef } = useSelectGroupContext();
     const labelId = props.id ?? `${groupId}-label`;
 
@@ -1542,6 +2703,7 @@ function SelectLabel({ children, className, asChild, ...props }: SelectLabelProp
 
             className={cn(
                 'text-xs font-semibold text-muted-write px-2 py-1.5',
+                layout === 'grid' && 'col-span-full',
                 className
             )}
 
@@ -1563,6 +2725,8 @@ interface SelectSeparatorProps {
 }
 
 function SelectSeparator({ className, children, asChild, ...props }: SelectSeparatorProps) {
+    const { layout } = useSelectContext();
+
     const Component = asChild ? Slot : 'span';
 
     return (
@@ -1576,6 +2740,7 @@ function SelectSeparator({ className, children, asChild, ...props }: SelectSepar
 
             className={cn(
                 'block h-px my-1 -mx-1 bg-muted-bound',
+                layout === 'grid' && 'col-span-full',
                 className
             )}
 
@@ -1787,11 +2952,15 @@ export {
     Select,
     SelectTrigger,
     SelectValue,
+    SelectClear,
     SelectTriggerIndicator,
     SelectPortal,
     SelectPositioner,
     SelectContent,
     SelectViewport,
+    SelectLoading,
+    SelectError,
+    SelectCreate,
     SelectItem,
     SelectItemText,
     SelectItemIndicator,
@@ -1801,8 +2970,14 @@ export {
     SelectScrollUpButton,
     SelectScrollDownButton,
     type SelectProps,
+    type SelectLayout,
+    type SelectActionsRef,
+    type SelectItems,
+    type SelectItemData,
+    type SelectGroupData,
     type SelectItemProps,
     type SelectValueProps,
+    type SelectClearProps,
     type SelectPositionerProps,
     type SelectContentProps,
     type SelectItemTextProps,
@@ -1816,6 +2991,10 @@ export {
     type SelectTriggerIndicatorProps,
     type SelectPortalProps,
     type SelectViewportProps,
+    type SelectLoadingProps,
+    type SelectErrorProps,
+    type SelectCreateProps,
+    type SelectLoadStatus,
     type Side,
     type Align,
 }
@@ -0,0 +1,238 @@
+import type { Point, VirtualElement } from "@/compute-position";
+
+// ---------------------------------------------------------------------------------------------------- //
+
+interface PointAnchorOptions {
+    /** Follow the pointer while it moves, e.g. for tooltips that trail the cursor. */
+    follow?: boolean;
+    /** Element whose scroll containers and collision boundary the point belongs to. */
+    contextElement?: Element;
+}
+
+type TextField = HTMLTextAreaElement | HTMLInputElement;
+
+// ---------------------------------------------------------------------------------------------------- //
+
+// Listeners are only attached to the DOM while at least one positioner is subscribed.
+function createSubscribe(listen: (notify: () => void) => () => void): NonNullable<VirtualElement["subscribe"]> {
+    const listeners = new Set<() => void>();
+    let stop: (() => void) | null = null;
+
+    const notify = () => listeners.forEach((listener) => listener());
+
+    return (listener) => {
+        listeners.add(listener);
+        if (!stop) stop = listen(notify);
+
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size || !stop) return;
+
+            stop();
+            stop = null;
+        }
+    }
+}
+
+function getElement(node: Node | null): Element | undefined {
+    if (!node) return undefined;
+    return node instanceof Element ? node : node.parentElement ?? undefined;
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+/**
+ * Anchors to a single point in viewport coordinates, such as the pointer position of a context menu.
+ */
+function createPointAnchor(point: Point | MouseEvent, { follow = false, contextElement }: PointAnchorOptions = {}): VirtualElement {
+    let x = "clientX" in point ? point.clientX : point.x;
+    let y = "clientY" in point ? point.clientY : point.y;
+
+    return {
+        getBoundingClientRect: () => new DOMRect(x, y, 0, 0),
+        contextElement,
+
+        subscribe: follow
+            ? createSubscribe((notify) => {
+                const handlePointerMove = (event: PointerEvent) => {
+                    x = event.clientX;
+                    y = event.clientY;
+                    notify();
+                }
+
+                document.addEventListener("pointermove", handlePointerMove, { passive: true });
+                return () => document.removeEventListener("pointermove", handlePointerMove);
+            })
+            : undefined,
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+function getCurrentRange(): Range | null {
+    const selection = window.getSelection();
+    return selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+}
+
+/**
+ * Anchors to a DOM `Range`. Without a range it follows the current text selection, which is what
+ * inline formatting toolbars need.
+ */
+function createRangeAnchor(range?: Range): VirtualElement {
+    const getRange = () => range ?? getCurrentRange();
+
+    return {
+        getBoundingClientRect: () => {
+            const current = getRange();
+            if (!current) return new DOMRect();
+
+            // A collapsed range reports an empty rect at the origin, but its client rects hold the caret box.
+            const rect = current.getBoundingClientRect();
+            if (rect.width || rect.height || !current.collapsed) return rect;
+
+            return current.getClientRects()[0] ?? rect;
+        },
+
+        get contextElement() {
+            return getElement(getRange()?.commonAncestorContainer ?? null);
+        },
+
+        subscribe: range
+            ? undefined
+            : createSubscribe((notify) => {
+                document.addEventListener("selectionchange", notify);
+                return () => document.removeEventListener("selectionchange", notify);
+            }),
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+// Properties that affect where text wraps and how tall each line is.
+const MIRRORED_PROPERTIES = [
+    "direction",
+    "boxSizing",
+    "width",
+    "height",
+    "overflowX",
+    "overflowY",
+    "borderTopWidth",
+    "borderRightWidth",
+    "borderBottomWidth",
+    "borderLeftWidth",
+    "borderStyle",
+    "paddingTop",
+    "paddingRight",
+    "paddingBottom",
+    "paddingLeft",
+    "fontStyle",
+    "fontVariant",
+    "fontWeight",
+    "fontStretch",
+    "fontSize",
+    "fontSizeAdjust",
+    "lineHeight",
+    "fontFamily",
+    "textAlign",
+    "textTransform",
+    "textIndent",
+    "textDecoration",
+    "letterSpacing",
+    "wordSpacing",
+    "tabSize",
+] as const;
+
+let caretMirror: { host: HTMLElement; mirror: HTMLElement; marker: HTMLElement } | null = null;
+
+// The mirror lives in a shadow root that stays attached between measurements: writing to it is
+// invisible to mutation observers on the document, such as `autoUpdate` with `layoutShift`, which
+// would otherwise measure again after every measurement.
+function getCaretMirror() {
+    if (!caretMirror) {
+        const host = document.createElement("div");
+        host.setAttribute("aria-hidden", "true");
+        host.style.position = "absolute";
+        host.style.visibility = "hidden";
+        host.style.top = "0";
+        host.style.left = "-9999px";
+
+        const mirror = document.createElement("div");
+        host.attachShadow({ mode: "open" }).appendChild(mirror);
+
+        caretMirror = { host, mirror, marker: document.createElement("span") };
+    }
+
+    if (!caretMirror.host.isConnected) document.body.appendChild(caretMirror.host);
+    return caretMirror;
+}
+
+function getCaretRect(field: TextField, position: number): DOMRect {
+    const style = getComputedStyle(field);
+    const isInput = field instanceof HTMLInputElement;
+
+    // Text fields do not expose caret geometry, so lay the text out again in an invisible copy
+    // and measure where a marker placed at the caret ends up.
+    const { mirror, marker } = getCaretMirror();
+
+    MIRRORED_PROPERTIES.forEach((property) => {
+        mirror.style[property] = style[property];
+    });
+
+    mirror.style.whiteSpace = isInput ? "pre" : "pre-wrap";
+    mirror.style.overflowWrap = isInput ? "normal" : "break-word";
+
+    mirror.textContent = field.value.slice(0, position);
+
+    marker.textContent = field.value.slice(position) || ".";
+    mirror.appendChild(marker);
+
+    const top = marker.offsetTop + parseFloat(style.borderTopWidth);
+    const left = marker.offsetLeft + parseFloat(style.borderLeftWidth);
+    const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2;
+
+    const fieldRect = field.getBoundingClientRect();
+
+    return new DOMRect(
+        fieldRect.left + left - field.scrollLeft,
+        fieldRect.top + top - field.scrollTop,
+        0,
+        lineHeight
+    );
+}
+
+/**
+ * Anchors to the caret inside a textarea or input, e.g. for @-mention suggestion lists. The caret
+ * position is read on every measurement unless a fixed `position` is given.
+ */
+function createCaretAnchor(field: TextField, position?: number): VirtualElement {
+    return {
+        getBoundingClientRect: () => getCaretRect(field, position ?? field.selectionStart ?? field.value.length),
+        contextElement: field,
+
+        // The field's own scroll is not seen by listeners on its ancestors.
+        subscribe: createSubscribe((notify) => {
+            field.addEventListener("input", notify);
+            field.addEventListener("scroll", notify, { passive: true });
+            document.addEventListener("selectionchange", notify);
+
+            return () => {
+                field.removeEventListener("input", notify);
+                field.removeEventListener("scroll", notify);
+                document.removeEventListener("selectionchange", notify);
+            }
+        }),
+    }
+}
+
+// ---------------------------------------------------------------------------------------------------- //
+
+export {
+    createPointAnchor,
+    createRangeAnchor,
+    createCaretAnchor,
+
+    type PointAnchorOptions,
+    type TextField,
+}
+
+// ---------------------------------------------------------------------------------------------------- //